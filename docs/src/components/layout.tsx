@@ -40,6 +40,8 @@ const docsNav = [
       { href: "/docs/variants", label: "Variants" },
       { href: "/docs/animate-presence", label: "AnimatePresence" },
       { href: "/docs/motion-config", label: "MotionConfig" },
+      { href: "/docs/motion-values", label: "Motion Values" },
+      { href: "/docs/animate", label: "animate()" },
       { href: "/docs/hooks", label: "Hooks" },
     ],
   },
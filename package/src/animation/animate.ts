@@ -0,0 +1,256 @@
+import {
+  GroupAnimationWithThen,
+  HTMLVisualElement,
+  SVGVisualElement,
+  isMotionValue,
+  isSVGElement,
+  isSVGSVGElement,
+  motionValue,
+  resolveElements,
+  visualElementStore,
+  type AnimationPlaybackControlsWithThen,
+  type AnimationScope as MotionDomAnimationScope,
+  type AnyResolvedKeyframe,
+  type ElementOrSelector,
+  type MotionValue,
+  type UnresolvedKeyframes,
+  type ValueTransition,
+  type VisualElement,
+} from "motion-dom";
+import { normalizeTarget } from "../component/normalize-props";
+import type { ElementTag, MotionTarget, Transition } from "../types";
+import { animateMotionValue, startMotionValueAnimation } from "./motion-value";
+import type { WithRender } from "./motion-element";
+import { isStaggerFunction, type StaggerFunction } from "./stagger";
+
+/**
+ * Transition accepted by `animate()`. When animating several elements,
+ * `delay` can be a `stagger()` function to offset each element.
+ */
+export type AnimateTransition<Tag extends ElementTag = ElementTag> = Omit<
+  Transition<Tag>,
+  "delay"
+> & {
+  delay?: number | StaggerFunction;
+};
+
+type AnimateScope = {
+  readonly current: Element | undefined;
+  animations: AnimationPlaybackControlsWithThen[];
+};
+
+export type AnimateValueKeyframes<V extends AnyResolvedKeyframe> =
+  | V
+  | Array<V | null>;
+
+/**
+ * Get the `VisualElement` that renders `element`. Elements rendered by a
+ * `motion.*` component reuse the component's values, so imperative and
+ * declarative animations interrupt each other instead of fighting.
+ */
+export const getVisualElement = (element: HTMLElement | SVGElement) => {
+  const existing = visualElementStore.get(element);
+  if (existing) return existing as VisualElement<HTMLElement | SVGElement>;
+
+  const isSVG = isSVGElement(element) && !isSVGSVGElement(element);
+  const options = {
+    props: {},
+    presenceContext: null,
+    visualState: {
+      latestValues: {},
+      renderState: {
+        transform: {},
+        transformOrigin: {},
+        style: {},
+        vars: {},
+        attrs: {},
+      },
+    },
+  };
+
+  const visualElement = isSVG
+    ? new SVGVisualElement(options)
+    : new HTMLVisualElement(options);
+
+  visualElement.mount(element as never);
+
+  return visualElement as VisualElement<HTMLElement | SVGElement>;
+};
+
+/**
+ * Animate a single value of an element's `VisualElement`, reading its
+ * current value from the DOM the first time it is animated.
+ */
+export const animateElementValue = (
+  visualElement: VisualElement<HTMLElement | SVGElement>,
+  key: string,
+  keyframes: unknown,
+  transition: Transition,
+) => {
+  const finalKeyframe = Array.isArray(keyframes)
+    ? keyframes[keyframes.length - 1]
+    : keyframes;
+
+  const value = visualElement.getValue(
+    key,
+    visualElement.latestValues[key] ??
+      visualElement.readValue(key, finalKeyframe) ??
+      null,
+  );
+  if (!value) return undefined;
+
+  return startMotionValueAnimation({
+    name: key,
+    motionValue: value,
+    keyframes,
+    transition: transition as never,
+    element: visualElement as unknown as WithRender,
+  });
+};
+
+const animateElements = (
+  subject: ElementOrSelector,
+  keyframes: MotionTarget,
+  options: AnimateTransition = {},
+  scope?: AnimateScope,
+) => {
+  // A scope that isn't mounted yet has nothing to match selectors against.
+  const elements =
+    typeof subject === "string" && scope && !scope.current
+      ? []
+      : resolveElements(subject, scope as MotionDomAnimationScope | undefined);
+  const { transition, ...target } = normalizeTarget({
+    ...keyframes,
+    transition: options as Transition,
+  }) as Record<string, unknown> & { transition: AnimateTransition };
+  const { delay = 0, ...elementTransition } = transition;
+
+  const animations: AnimationPlaybackControlsWithThen[] = [];
+
+  elements.forEach((element, index) => {
+    const visualElement = getVisualElement(element as HTMLElement);
+    const elementDelay = isStaggerFunction(delay)
+      ? delay(index, elements.length)
+      : delay;
+
+    for (const key in target) {
+      const valueKeyframes = target[key];
+      if (valueKeyframes === undefined) continue;
+
+      const animation = animateElementValue(
+        visualElement,
+        key,
+        valueKeyframes,
+        { ...elementTransition, delay: elementDelay } as Transition,
+      );
+
+      if (animation) animations.push(animation);
+    }
+  });
+
+  return new GroupAnimationWithThen(animations);
+};
+
+export const animateValue = <V extends AnyResolvedKeyframe>(
+  subject: MotionValue<V> | V,
+  keyframes: AnimateValueKeyframes<V>,
+  transition: AnimateTransition = {},
+) => {
+  const value = isMotionValue(subject) ? subject : motionValue(subject);
+  const { delay, ...valueTransition } = transition;
+  let animation: AnimationPlaybackControlsWithThen | undefined;
+
+  void value.start((complete) => {
+    const startAnimation = animateMotionValue(
+      "",
+      value,
+      keyframes as V | UnresolvedKeyframes<V>,
+      {
+        ...valueTransition,
+        delay: isStaggerFunction(delay) ? 0 : delay,
+      } as ValueTransition,
+    );
+    animation = startAnimation(complete) as
+      | AnimationPlaybackControlsWithThen
+      | undefined;
+    return animation;
+  });
+
+  return new GroupAnimationWithThen(animation ? [animation] : []);
+};
+
+const isDOMKeyframes = (keyframes: unknown): keyframes is MotionTarget =>
+  typeof keyframes === "object" &&
+  keyframes !== null &&
+  !Array.isArray(keyframes);
+
+export interface AnimateFunction {
+  <V extends AnyResolvedKeyframe>(
+    value: MotionValue<V> | V,
+    keyframes: AnimateValueKeyframes<V>,
+    transition?: AnimateTransition,
+  ): AnimationPlaybackControlsWithThen;
+  (
+    elementOrSelector: ElementOrSelector,
+    keyframes: MotionTarget,
+    transition?: AnimateTransition,
+  ): AnimationPlaybackControlsWithThen;
+}
+
+/**
+ * Create an `animate` function. With a `scope`, selectors are resolved
+ * inside `scope.current` and started animations are tracked in
+ * `scope.animations` until they finish.
+ */
+export const createScopedAnimate = (scope?: AnimateScope): AnimateFunction =>
+  (<V extends AnyResolvedKeyframe>(
+    subject: MotionValue<V> | V | ElementOrSelector,
+    keyframes: AnimateValueKeyframes<V> | MotionTarget,
+    transition?: AnimateTransition,
+  ) => {
+    const animation = isDOMKeyframes(keyframes)
+      ? animateElements(
+          subject as ElementOrSelector,
+          keyframes,
+          transition,
+          scope,
+        )
+      : animateValue(subject as MotionValue<V> | V, keyframes, transition);
+
+    if (scope) {
+      scope.animations.push(animation);
+      void animation.finished.then(() => {
+        const index = scope.animations.indexOf(animation);
+        if (index !== -1) scope.animations.splice(index, 1);
+      });
+    }
+
+    return animation;
+  }) as AnimateFunction;
+
+/**
+ * Animate outside of a `motion.*` component.
+ *
+ * - `animate(element | selector, keyframes, transition)` animates DOM
+ *   elements. Keys follow the same conventions as the `animate` prop, so
+ *   `"scale-x"`, `"background-color"` and CSS variables can be used.
+ * - `animate(motionValue, target, transition)` animates a `MotionValue`.
+ * - `animate(from, to, { onUpdate })` animates a plain number or color and
+ *   reports every frame through `onUpdate`.
+ *
+ * Returns playback controls (`play`, `pause`, `stop`, `cancel`, `time`,
+ * `speed`) that can also be awaited.
+ *
+ * @example
+ * ```ts
+ * const controls = animate(".box", { x: 100, "scale-x": 2 }, {
+ *   duration: 0.5,
+ *   delay: stagger(0.1),
+ * });
+ *
+ * controls.pause();
+ * controls.time = 0.25;
+ * await controls;
+ * ```
+ */
+export const animate = createScopedAnimate();
@@ -0,0 +1,181 @@
+import { getOwner, onCleanup, onMount } from "solid-js";
+import {
+  animateVisualElement,
+  setTarget,
+  type AnimationDefinition,
+  type VisualElement,
+} from "motion-dom";
+import { normalizeTarget } from "../component/normalize-props";
+import type {
+  ElementTag,
+  LegacyAnimationControls,
+  MotionAnimationDefinition,
+  MotionTargetAndTransition,
+  Transition,
+} from "../types";
+
+const toAnimationDefinition = (
+  definition: MotionAnimationDefinition,
+): AnimationDefinition | undefined => {
+  if (typeof definition === "boolean") return undefined;
+  if (typeof definition === "string" || Array.isArray(definition)) {
+    return definition;
+  }
+
+  return normalizeTarget(
+    definition as MotionTargetAndTransition<ElementTag>,
+  ) as AnimationDefinition;
+};
+
+// Values created by `setTarget` aren't rendered until something else changes.
+const applyTarget = (
+  visualElement: VisualElement,
+  definition: AnimationDefinition,
+) => {
+  setTarget(visualElement, definition);
+  visualElement.scheduleRender();
+};
+
+const setVariants = (visualElement: VisualElement, labels: string[]) => {
+  // Earlier labels take precedence, so apply them last.
+  [...labels].reverse().forEach((label) => {
+    const variant = visualElement.getVariant(label);
+    if (variant) applyTarget(visualElement, variant);
+
+    visualElement.variantChildren?.forEach((child) =>
+      setVariants(child, labels),
+    );
+  });
+};
+
+const setValues = (
+  visualElement: VisualElement,
+  definition: AnimationDefinition,
+) => {
+  if (typeof definition === "string") {
+    setVariants(visualElement, [definition]);
+  } else if (Array.isArray(definition)) {
+    setVariants(visualElement, definition);
+  } else {
+    applyTarget(visualElement, definition);
+  }
+};
+
+/**
+ * Create controls that drive every `motion.*` component they're passed to
+ * via `animate={controls}`.
+ *
+ * `start()` and `set()` accept the same definitions as the `animate` prop:
+ * a target, a variant label or a list of labels. Calls made before the
+ * current component has mounted are deferred until it has. The controls are
+ * stopped when the current owner is disposed.
+ *
+ * @example
+ * ```tsx
+ * const controls = createAnimationControls();
+ *
+ * const reveal = async () => {
+ *   await controls.start({ opacity: 1 });
+ *   await controls.start("expanded", { duration: 0.2 });
+ * };
+ *
+ * return (
+ *   <>
+ *     <motion.li animate={controls} variants={variants} />
+ *     <motion.li animate={controls} variants={variants} />
+ *   </>
+ * );
+ * ```
+ */
+export const createAnimationControls = <
+  Tag extends ElementTag = ElementTag,
+>(): LegacyAnimationControls<Tag> => {
+  const subscribers = new Set<VisualElement>();
+  const pending: VoidFunction[] = [];
+  let hasMounted = false;
+
+  const controls: LegacyAnimationControls<Tag> = {
+    subscribe(visualElement) {
+      subscribers.add(visualElement as VisualElement);
+      return () => void subscribers.delete(visualElement as VisualElement);
+    },
+
+    start(definition, transitionOverride) {
+      if (!hasMounted) {
+        return new Promise<void>((resolve) => {
+          pending.push(() => {
+            void controls.start(definition, transitionOverride).then(resolve);
+          });
+        });
+      }
+
+      const animationDefinition = toAnimationDefinition(
+        definition as MotionAnimationDefinition,
+      );
+      if (!animationDefinition) return Promise.resolve();
+
+      const override = transitionOverride
+        ? (
+            normalizeTarget({
+              transition: transitionOverride as Transition,
+            }) as MotionTargetAndTransition<ElementTag>
+          ).transition
+        : undefined;
+
+      const animations: Promise<void>[] = [];
+      subscribers.forEach((visualElement) => {
+        animations.push(
+          animateVisualElement(visualElement, animationDefinition, {
+            transitionOverride: override as never,
+          }),
+        );
+      });
+
+      return Promise.all(animations);
+    },
+
+    set(definition) {
+      if (!hasMounted) {
+        pending.push(() => controls.set(definition));
+        return;
+      }
+
+      const animationDefinition = toAnimationDefinition(
+        definition as MotionAnimationDefinition,
+      );
+      if (!animationDefinition) return;
+
+      subscribers.forEach((visualElement) =>
+        setValues(visualElement, animationDefinition),
+      );
+    },
+
+    stop() {
+      subscribers.forEach((visualElement) => {
+        visualElement.values.forEach((value) => value.stop());
+      });
+    },
+
+    mount() {
+      hasMounted = true;
+      pending.splice(0).forEach((run) => run());
+
+      return () => {
+        hasMounted = false;
+        controls.stop();
+      };
+    },
+  };
+
+  if (getOwner()) {
+    let unmount: VoidFunction | undefined;
+    onMount(() => {
+      unmount = controls.mount();
+    });
+    onCleanup(() => unmount?.());
+  } else {
+    controls.mount();
+  }
+
+  return controls;
+};
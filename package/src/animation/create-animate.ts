@@ -0,0 +1,109 @@
+import { getOwner, onCleanup } from "solid-js";
+import type { AnimationPlaybackControlsWithThen } from "motion-dom";
+import { getOwnerPresenceId, usePresenceContext } from "../component/presence";
+import { createScopedAnimate, type AnimateFunction } from "./animate";
+
+/**
+ * Ref callback that marks the root element of a `createAnimate()` scope.
+ */
+export interface AnimationScope<T extends Element = Element> {
+  (element: T): void;
+  readonly current: T | undefined;
+  animations: AnimationPlaybackControlsWithThen[];
+}
+
+type ExitMarker = Element & {
+  __motionIsAnimatingExit?: boolean;
+  __motionPresenceId?: string;
+  __motionShouldExit?: boolean;
+  __motionExitCleanup?: VoidFunction;
+};
+
+/**
+ * Create an `animate` function scoped to an element.
+ *
+ * Pass `scope` as a `ref`. Selectors are then only matched inside the scoped
+ * element, and every animation started through the returned `animate` is
+ * cancelled when the current owner is disposed.
+ *
+ * Inside `AnimatePresence`, combine it with `usePresence()` to run an exit
+ * sequence: animations started when the component is removed keep running,
+ * and the element stays mounted until `safeToRemove()` is called.
+ *
+ * @example
+ * ```tsx
+ * const [, safeToRemove] = usePresence();
+ * const [scope, animate] = createAnimate();
+ *
+ * onMount(() => animate("li", { opacity: [0, 1] }, { delay: stagger(0.05) }));
+ *
+ * onCleanup(async () => {
+ *   await animate("li", { opacity: 0 });
+ *   await animate(scope.current!, { x: -100 });
+ *   safeToRemove?.();
+ * });
+ *
+ * return <ul ref={scope}>...</ul>;
+ * ```
+ */
+export const createAnimate = <T extends Element = HTMLElement>(): [
+  AnimationScope<T>,
+  AnimateFunction,
+] => {
+  const presence = usePresenceContext();
+  const owner = getOwner();
+  let current: T | undefined;
+
+  const scope = Object.defineProperties(
+    (element: T) => {
+      current = element;
+    },
+    {
+      current: { get: () => current },
+      animations: { value: [], writable: true },
+    },
+  ) as AnimationScope<T>;
+
+  const animate = createScopedAnimate(scope);
+
+  const cancelAll = () => {
+    const animations = scope.animations;
+    scope.animations = [];
+    animations.forEach((animation) => animation.cancel());
+  };
+
+  if (owner) {
+    onCleanup(() => {
+      const element = current as ExitMarker | undefined;
+
+      if (!presence || !element) {
+        cancelAll();
+        return;
+      }
+
+      // AnimatePresence marks removed elements right after the owner is
+      // disposed, so wait a microtask before deciding whether this is an exit.
+      queueMicrotask(() => {
+        const presenceId = getOwnerPresenceId(owner);
+
+        if (
+          !presenceId ||
+          !element.__motionShouldExit ||
+          !element.isConnected
+        ) {
+          cancelAll();
+          return;
+        }
+
+        element.__motionIsAnimatingExit = true;
+        element.__motionPresenceId = presenceId;
+        element.__motionExitCleanup = () => {
+          element.__motionIsAnimatingExit = false;
+          cancelAll();
+        };
+      });
+    });
+  }
+
+  return [scope, animate];
+};
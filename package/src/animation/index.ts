@@ -4,6 +4,23 @@ export {
   areKeyframesEqual,
 } from "./keyframes";
 export { animateMotionValue, startMotionValueAnimation } from "./motion-value";
+export {
+  animate,
+  type AnimateFunction,
+  type AnimateTransition,
+  type AnimateValueKeyframes,
+} from "./animate";
+export { createAnimate, type AnimationScope } from "./create-animate";
+export { createAnimationControls } from "./animation-controls";
+export {
+  createTimeline,
+  TimelineAnimation,
+  type TimelineAt,
+  type TimelineLabel,
+  type TimelineOptions,
+  type TimelineSegment,
+  type TimelineSegmentOptions,
+} from "./timeline";
 export { getFinalKeyframe } from "./get-final-keyframe";
 export { getDefaultTransition } from "./default-transitions";
 export { isTransitionDefined } from "./transition-utils";
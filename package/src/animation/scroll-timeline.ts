@@ -0,0 +1,272 @@
+import {
+  motionValue,
+  resolveVariant,
+  supportsScrollTimeline,
+  supportsViewTimeline,
+  type AnimationDefinition,
+  type AnimationPlaybackControls,
+  type MotionValue,
+  type ProgressTimeline,
+  type TimelineWithFallback,
+  type VisualElement,
+} from "motion-dom";
+import type {
+  ScrollIntersection,
+  ScrollOffset,
+  ScrollTimelineOptions,
+  Transition,
+} from "../types";
+import {
+  defaultScrollOffset,
+  resolveScrollSource,
+  trackScroll,
+  type ScrollMotionValues,
+} from "../values/create-scroll";
+
+type ProgressTimelineConstructor = new (
+  options: Record<string, unknown>,
+) => ProgressTimeline;
+
+interface ScrollTimelineSource extends TimelineWithFallback {
+  container: Element | undefined;
+  target: Element | undefined;
+  axis: "x" | "y";
+  offset: string;
+  allowNative: boolean;
+  stop: VoidFunction;
+}
+
+/**
+ * `ViewTimeline` ranges matching the intersections `createScroll()` accepts.
+ * Other intersections can't be expressed natively and use the JS fallback.
+ */
+const viewTimelineRanges: Record<string, string> = {
+  "start end": "entry 0%",
+  "end end": "entry 100%",
+  "start start": "exit 0%",
+  "end start": "exit 100%",
+};
+
+const intersectionKey = (intersection: ScrollIntersection) =>
+  Array.isArray(intersection)
+    ? intersection.join(" ")
+    : String(intersection).trim().split(/\s+/).join(" ");
+
+const offsetKey = (offset: ScrollOffset) =>
+  offset.map(intersectionKey).join(",");
+
+const getScrollTimelineOptions = (
+  transition: Transition | undefined,
+  key: string,
+): ScrollTimelineOptions | undefined => {
+  if (!transition) return undefined;
+
+  const valueTransition = (transition as Record<string, unknown>)[key];
+  if (typeof valueTransition === "object" && valueTransition !== null) {
+    return (valueTransition as Transition).scrollTimeline;
+  }
+
+  return (
+    (transition.default as Transition | undefined)?.scrollTimeline ??
+    transition.scrollTimeline
+  );
+};
+
+/**
+ * A native `ScrollTimeline` or `ViewTimeline` for `source`, if the browser
+ * supports one that matches its options.
+ */
+const createNativeTimeline = ({
+  container,
+  target,
+  axis,
+  offset,
+}: Pick<ScrollTimelineSource, "container" | "target" | "axis" | "offset">):
+  | Pick<TimelineWithFallback, "timeline" | "rangeStart" | "rangeEnd">
+  | undefined => {
+  if (!supportsScrollTimeline()) return undefined;
+
+  if (!target) {
+    if (offset !== offsetKey(defaultScrollOffset)) return undefined;
+
+    const ScrollTimeline = window.ScrollTimeline as unknown as
+      | ProgressTimelineConstructor
+      | undefined;
+
+    return {
+      timeline: new ScrollTimeline!({
+        source:
+          container ?? document.scrollingElement ?? document.documentElement,
+        axis,
+      }),
+    };
+  }
+
+  // A `ViewTimeline` always follows the nearest scroll container.
+  if (container || !supportsViewTimeline()) return undefined;
+
+  const [rangeStart, rangeEnd, ...rest] = offset
+    .split(",")
+    .map((intersection) => viewTimelineRanges[intersection]);
+  if (!rangeStart || !rangeEnd || rest.length) return undefined;
+
+  const ViewTimeline = window.ViewTimeline as unknown as
+    | ProgressTimelineConstructor
+    | undefined;
+
+  return {
+    timeline: new ViewTimeline!({ subject: target, axis }),
+    rangeStart,
+    rangeEnd,
+  };
+};
+
+const createScrollTimelineSource = (
+  source: Pick<
+    ScrollTimelineSource,
+    "container" | "target" | "axis" | "offset" | "allowNative"
+  >,
+  offset: ScrollOffset,
+): ScrollTimelineSource => {
+  const values: ScrollMotionValues = {
+    scrollX: motionValue(0),
+    scrollY: motionValue(0),
+    scrollXProgress: motionValue(0),
+    scrollYProgress: motionValue(0),
+  };
+  const progress =
+    source.axis === "x" ? values.scrollXProgress : values.scrollYProgress;
+
+  let stopTracking: VoidFunction | undefined;
+
+  // Only measure scroll in JS once an animation actually falls back to it.
+  const observe = (animation: AnimationPlaybackControls) => {
+    stopTracking ??= trackScroll(
+      values,
+      source.container,
+      source.target,
+      offset,
+      source.axis,
+    );
+
+    const update = (latest: number) => {
+      animation.time = animation.iterationDuration * latest;
+    };
+
+    animation.pause();
+    update(progress.get());
+    return progress.on("change", update);
+  };
+
+  return {
+    ...source,
+    ...(source.allowNative ? createNativeTimeline(source) : undefined),
+    observe,
+    stop: () => {
+      stopTracking?.();
+      Object.values(values).forEach((value: MotionValue) => value.destroy());
+    },
+  };
+};
+
+/**
+ * Attach animations whose transition sets `scrollTimeline` to scroll.
+ *
+ * Animations of values the browser can animate on the compositor (`opacity`,
+ * `transform`, `filter` and `clip-path`) are attached to a native
+ * `ScrollTimeline` or `ViewTimeline` where supported. Everything else, or
+ * everything when `allowNative()` is `false`, follows scroll from JS.
+ */
+export const observeScrollTimelines = (
+  visualElement: VisualElement,
+  allowNative: () => boolean,
+): VoidFunction => {
+  const sources: ScrollTimelineSource[] = [];
+  const subscriptions = new Map<MotionValue, VoidFunction>();
+  let definition: AnimationDefinition | undefined;
+
+  const getSource = (options: ScrollTimelineOptions) => {
+    const offset = options.offset ?? defaultScrollOffset;
+    const key = {
+      container: resolveScrollSource(options.container),
+      target: resolveScrollSource(options.target),
+      axis: options.axis ?? "y",
+      offset: offsetKey(offset),
+      allowNative: allowNative(),
+    };
+
+    const existing = sources.find(
+      (source) =>
+        source.container === key.container &&
+        source.target === key.target &&
+        source.axis === key.axis &&
+        source.offset === key.offset &&
+        source.allowNative === key.allowNative,
+    );
+    if (existing) return existing;
+
+    const source = createScrollTimelineSource(key, offset);
+    sources.push(source);
+    return source;
+  };
+
+  const resolveTargets = () =>
+    (Array.isArray(definition) ? definition : [definition]).flatMap((item) => {
+      if (item === undefined) return [];
+      const resolved = resolveVariant(
+        visualElement,
+        item,
+        visualElement.presenceContext?.custom,
+      );
+      return resolved ? [resolved] : [];
+    });
+
+  const getTransition = (): Transition | undefined => {
+    const resolved = resolveTargets().find((target) => target.transition);
+
+    return (resolved?.transition ?? visualElement.getDefaultTransition()) as
+      | Transition
+      | undefined;
+  };
+
+  const subscribe = (key: string, value: MotionValue) => {
+    if (subscriptions.has(value)) return;
+
+    subscriptions.set(
+      value,
+      value.on("animationStart", () => {
+        const options = getScrollTimelineOptions(getTransition(), key);
+        if (options && value.animation) {
+          value.animation.attachTimeline(getSource(options));
+        }
+      }),
+    );
+  };
+
+  // Only values whose transition sets `scrollTimeline` are subscribed to.
+  // This runs before the animation starts, so values it creates are made
+  // here first, the same way `animateTarget` would.
+  const removeAnimationStart = visualElement.on("AnimationStart", (latest) => {
+    definition = latest;
+    const transition = getTransition();
+
+    for (const target of resolveTargets()) {
+      for (const key of Object.keys(target)) {
+        if (key === "transition" || key === "transitionEnd") continue;
+        if (!getScrollTimelineOptions(transition, key)) continue;
+
+        subscribe(
+          key,
+          visualElement.getValue(key, visualElement.latestValues[key] ?? null)!,
+        );
+      }
+    }
+  });
+
+  return () => {
+    removeAnimationStart();
+    subscriptions.forEach((unsubscribe) => unsubscribe());
+    subscriptions.clear();
+    sources.splice(0).forEach((source) => source.stop());
+  };
+};
@@ -0,0 +1,498 @@
+import { getOwner, onCleanup } from "solid-js";
+import {
+  GroupAnimationWithThen,
+  createGeneratorEasing,
+  defaultOffset,
+  fillOffset,
+  isGenerator,
+  isMotionValue,
+  mixNumber,
+  resolveElements,
+  spring,
+  type AcceptedAnimations,
+  type AnyResolvedKeyframe,
+  type ElementOrSelector,
+  type MotionValue,
+  type RepeatType,
+  type Transition as MotionDomTransition,
+} from "motion-dom";
+import {
+  getEasingForSegment,
+  progress,
+  secondsToMilliseconds,
+  type Easing,
+} from "motion-utils";
+import { normalizeTarget } from "../component/normalize-props";
+import type { MotionTarget, Transition } from "../types";
+import {
+  animateElementValue,
+  animateValue,
+  getVisualElement,
+  type AnimateTransition,
+  type AnimateValueKeyframes,
+} from "./animate";
+import { isStaggerFunction } from "./stagger";
+
+/**
+ * When a segment starts:
+ * - a number is an absolute time in seconds
+ * - `"<"` is the start of the previous segment
+ * - `"+0.2"` / `"-0.1"` are relative to the end of the previous segment
+ * - any other string is a label
+ */
+export type TimelineAt = number | string;
+
+export type TimelineSegmentOptions = AnimateTransition & {
+  at?: TimelineAt;
+};
+
+export type TimelineLabel = string | { name: string; at?: TimelineAt };
+
+export type TimelineSegment =
+  | TimelineLabel
+  | [ElementOrSelector, MotionTarget, TimelineSegmentOptions?]
+  | [
+      MotionValue<number> | MotionValue<string>,
+      AnimateValueKeyframes<AnyResolvedKeyframe>,
+      TimelineSegmentOptions?,
+    ];
+
+export interface TimelineOptions {
+  /**
+   * Stretch or compress the whole timeline to this many seconds.
+   */
+  duration?: number;
+  delay?: number;
+  repeat?: number;
+  repeatType?: RepeatType;
+  repeatDelay?: number;
+  /**
+   * Transition used by segments that don't define their own.
+   */
+  defaultTransition?: AnimateTransition;
+}
+
+type ValueKeyframe = {
+  value: unknown;
+  at: number;
+  easing: Easing;
+};
+
+type SubjectSequence = Map<string, ValueKeyframe[]>;
+
+const defaultSegmentTransition = {
+  duration: 0.3,
+  ease: "easeOut",
+} satisfies AnimateTransition;
+
+const calcNextTime = (
+  current: number,
+  next: TimelineAt,
+  previous: number,
+  labels: Map<string, number>,
+) => {
+  if (typeof next === "number") return next;
+  if (next.startsWith("+") || next.startsWith("-")) {
+    return Math.max(0, current + parseFloat(next));
+  }
+  if (next === "<") return previous;
+  return labels.get(next) ?? current;
+};
+
+/**
+ * Remove keyframes a later segment overwrites.
+ */
+const eraseKeyframes = (
+  sequence: ValueKeyframe[],
+  startTime: number,
+  endTime: number,
+) => {
+  for (let i = sequence.length - 1; i >= 0; i--) {
+    const keyframe = sequence[i]!;
+    if (keyframe.at > startTime && keyframe.at < endTime) {
+      sequence.splice(i, 1);
+    }
+  }
+};
+
+const addSegmentKeyframes = (
+  sequence: ValueKeyframe[],
+  valueKeyframes: unknown,
+  transition: AnimateTransition,
+  startTime: number,
+  elementIndex: number,
+  numElements: number,
+) => {
+  const keyframes: unknown[] = Array.isArray(valueKeyframes)
+    ? [...valueKeyframes]
+    : [valueKeyframes];
+  const {
+    delay = 0,
+    times = defaultOffset(keyframes),
+    type = "keyframes",
+    ...remaining
+  } = transition as AnimateTransition & { times?: number[] };
+  let { duration, ease = defaultSegmentTransition.ease } = remaining;
+
+  const segmentDelay = isStaggerFunction(delay)
+    ? delay(elementIndex, numElements)
+    : delay;
+
+  if (type === "spring" || isGenerator(type)) {
+    const generator = type === "spring" ? spring : type;
+    const absoluteDelta =
+      keyframes.length === 2 &&
+      typeof keyframes[0] === "number" &&
+      typeof keyframes[1] === "number"
+        ? Math.abs(keyframes[1] - keyframes[0])
+        : 100;
+    const springTransition = { ...remaining } as MotionDomTransition;
+    if (duration !== undefined) {
+      springTransition.duration = secondsToMilliseconds(duration);
+    }
+    const springEasing = createGeneratorEasing(
+      springTransition,
+      absoluteDelta,
+      generator,
+    );
+    ease = springEasing.ease;
+    duration = springEasing.duration;
+  }
+
+  duration ??= defaultSegmentTransition.duration;
+
+  const segmentStart = startTime + segmentDelay;
+  const segmentTimes = [...times];
+
+  if (segmentTimes.length === 1 && segmentTimes[0] === 0) {
+    segmentTimes[1] = 1;
+  }
+
+  const remainder = segmentTimes.length - keyframes.length;
+  if (remainder > 0) fillOffset(segmentTimes, remainder);
+
+  // A single keyframe animates from wherever the value is at this point.
+  if (keyframes.length === 1) keyframes.unshift(null);
+
+  eraseKeyframes(sequence, segmentStart, segmentStart + duration);
+
+  keyframes.forEach((value, i) => {
+    sequence.push({
+      value,
+      at: mixNumber(segmentStart, segmentStart + duration, segmentTimes[i]!),
+      easing: getEasingForSegment(ease as Easing | Easing[], i),
+    });
+  });
+
+  return segmentDelay + duration;
+};
+
+const getSubjectSequence = <T extends object>(
+  sequences: Map<T, SubjectSequence>,
+  subject: T,
+) => {
+  let sequence = sequences.get(subject);
+  if (!sequence) {
+    sequence = new Map();
+    sequences.set(subject, sequence);
+  }
+  return sequence;
+};
+
+const getValueSequence = (sequence: SubjectSequence, key: string) => {
+  let valueSequence = sequence.get(key);
+  if (!valueSequence) {
+    valueSequence = [];
+    sequence.set(key, valueSequence);
+  }
+  return valueSequence;
+};
+
+/**
+ * Flatten a value's keyframes into one keyframes animation spanning the
+ * whole timeline.
+ */
+const createValueTransition = (
+  valueSequence: ValueKeyframe[],
+  totalDuration: number,
+  options: TimelineOptions,
+) => {
+  valueSequence.sort((a, b) => a.at - b.at);
+
+  const keyframes: unknown[] = [];
+  const times: number[] = [];
+  const ease: Easing[] = [];
+
+  for (const { value, at, easing } of valueSequence) {
+    keyframes.push(value);
+    times.push(totalDuration ? progress(0, totalDuration, at) : 0);
+    ease.push(easing);
+  }
+
+  if (times[0] !== 0) {
+    times.unshift(0);
+    keyframes.unshift(null);
+    ease.unshift("easeInOut");
+  }
+
+  if (times[times.length - 1] !== 1) {
+    times.push(1);
+    keyframes.push(null);
+  }
+
+  // Later wildcards hold the previous keyframe. A leading wildcard is
+  // resolved to the value's current state when the animation starts.
+  for (let i = 1; i < keyframes.length; i++) {
+    if (keyframes[i] === null) keyframes[i] = keyframes[i - 1];
+  }
+
+  return {
+    keyframes,
+    transition: {
+      type: "tween",
+      duration: totalDuration,
+      delay: options.delay,
+      repeat: options.repeat,
+      repeatType: options.repeatType,
+      repeatDelay: options.repeatDelay,
+      ease,
+      times,
+    } as Transition,
+  };
+};
+
+/**
+ * Playback controls for a timeline. Every value in the timeline runs as one
+ * animation, so seeking, pausing, reversing and changing `speed` affect the
+ * whole sequence at once.
+ */
+export class TimelineAnimation extends GroupAnimationWithThen {
+  readonly labels: ReadonlyMap<string, number>;
+
+  constructor(
+    animations: Array<AcceptedAnimations | undefined>,
+    labels: ReadonlyMap<string, number>,
+  ) {
+    super(animations);
+    this.labels = labels;
+  }
+
+  /**
+   * Jump to a time in seconds or to a label.
+   */
+  seek(at: number | string): void {
+    if (this.animations.length === 0) return;
+    const time = typeof at === "number" ? at : this.labels.get(at);
+    if (time !== undefined) this.time = time;
+  }
+
+  /**
+   * Flip the playback direction and play from the current time.
+   */
+  reverse(): void {
+    for (const animation of this.animations) {
+      // Resuming a paused animation ignores a negative speed, so resume
+      // first and flip the direction while it's running.
+      if (animation.state === "finished") {
+        animation.speed = -animation.speed;
+        animation.play();
+      } else {
+        animation.play();
+        animation.speed = -animation.speed;
+      }
+    }
+  }
+}
+
+/**
+ * Play a sequence of animations as a single, scrubbable timeline.
+ *
+ * Each segment is `[target, keyframes, options]`, where `target` is an
+ * element, selector or `MotionValue`. `options.at` positions the segment:
+ * an absolute time, `"<"` for the start of the previous segment, `"+0.2"` /
+ * `"-0.1"` relative to the end of the previous segment, or a label. Labels
+ * are added as plain strings or `{ name, at }`.
+ *
+ * The timeline is stopped when the current Solid owner is disposed.
+ *
+ * @example
+ * ```ts
+ * const timeline = createTimeline(
+ *   [
+ *     [".card", { opacity: [0, 1] }, { duration: 0.3, delay: stagger(0.05) }],
+ *     "cards-in",
+ *     [".title", { y: [20, 0] }, { at: "-0.1" }],
+ *     [progress, 1, { at: "cards-in", duration: 1 }],
+ *   ],
+ *   { repeat: 1, repeatType: "reverse" },
+ * );
+ *
+ * timeline.pause();
+ * timeline.seek("cards-in");
+ * ```
+ */
+export const createTimeline = (
+  segments: TimelineSegment[],
+  options: TimelineOptions = {},
+): TimelineAnimation => {
+  const { defaultTransition = {} } = options;
+  const labels = new Map<string, number>();
+  const elementSequences = new Map<Element, SubjectSequence>();
+  const valueSequences = new Map<MotionValue, SubjectSequence>();
+
+  let previousTime = 0;
+  let currentTime = 0;
+  let totalDuration = 0;
+
+  for (const segment of segments) {
+    if (typeof segment === "string") {
+      labels.set(segment, currentTime);
+      continue;
+    }
+
+    if (!Array.isArray(segment)) {
+      labels.set(
+        segment.name,
+        calcNextTime(
+          currentTime,
+          segment.at ?? currentTime,
+          previousTime,
+          labels,
+        ),
+      );
+      continue;
+    }
+
+    const [subject, keyframes, segmentOptions = {}] = segment;
+    const { at, ...segmentTransition } = segmentOptions;
+
+    if (at !== undefined) {
+      currentTime = calcNextTime(currentTime, at, previousTime, labels);
+    }
+
+    let maxDuration = 0;
+
+    const addValue = (
+      valueSequence: ValueKeyframe[],
+      valueKeyframes: unknown,
+      valueTransition: AnimateTransition,
+      index: number,
+      count: number,
+    ) => {
+      const duration = addSegmentKeyframes(
+        valueSequence,
+        valueKeyframes,
+        valueTransition,
+        currentTime,
+        index,
+        count,
+      );
+      maxDuration = Math.max(maxDuration, duration);
+      totalDuration = Math.max(totalDuration, currentTime + duration);
+    };
+
+    if (isMotionValue(subject)) {
+      addValue(
+        getValueSequence(getSubjectSequence(valueSequences, subject), ""),
+        keyframes,
+        { ...defaultTransition, ...segmentTransition },
+        0,
+        1,
+      );
+    } else {
+      const elements = resolveElements(subject as ElementOrSelector);
+      const { transition, ...target } = normalizeTarget({
+        ...(keyframes as MotionTarget),
+        transition: segmentTransition as Transition,
+      }) as Record<string, unknown> & { transition: AnimateTransition };
+
+      elements.forEach((element, index) => {
+        const sequence = getSubjectSequence(elementSequences, element);
+
+        for (const key in target) {
+          const valueOverride = (transition as Record<string, unknown>)[key];
+          addValue(
+            getValueSequence(sequence, key),
+            target[key],
+            {
+              ...defaultTransition,
+              ...transition,
+              ...(typeof valueOverride === "object" ? valueOverride : {}),
+            } as AnimateTransition,
+            index,
+            elements.length,
+          );
+        }
+      });
+    }
+
+    previousTime = currentTime;
+    currentTime += maxDuration;
+  }
+
+  // Rescale every keyframe time when the timeline has a fixed duration.
+  if (options.duration !== undefined && totalDuration > 0) {
+    const scale = options.duration / totalDuration;
+    const rescale = (sequences: Map<unknown, SubjectSequence>) =>
+      sequences.forEach((sequence) =>
+        sequence.forEach((valueSequence) =>
+          valueSequence.forEach((keyframe) => {
+            keyframe.at *= scale;
+          }),
+        ),
+      );
+
+    rescale(elementSequences);
+    rescale(valueSequences);
+    labels.forEach((time, label) => labels.set(label, time * scale));
+    totalDuration = options.duration;
+  }
+
+  const animations: AcceptedAnimations[] = [];
+
+  elementSequences.forEach((sequence, element) => {
+    const visualElement = getVisualElement(element as HTMLElement);
+
+    sequence.forEach((valueSequence, key) => {
+      const { keyframes, transition } = createValueTransition(
+        valueSequence,
+        totalDuration,
+        options,
+      );
+      const animation = animateElementValue(
+        visualElement,
+        key,
+        keyframes,
+        transition,
+      );
+      if (animation) animations.push(animation);
+    });
+  });
+
+  valueSequences.forEach((sequence, value) => {
+    sequence.forEach((valueSequence) => {
+      const { keyframes, transition } = createValueTransition(
+        valueSequence,
+        totalDuration,
+        options,
+      );
+      animations.push(
+        ...(
+          animateValue(
+            value,
+            keyframes as AnimateValueKeyframes<AnyResolvedKeyframe>,
+            transition as AnimateTransition,
+          ) as GroupAnimationWithThen
+        ).animations,
+      );
+    });
+  });
+
+  const timeline = new TimelineAnimation(animations, labels);
+
+  if (getOwner()) {
+    onCleanup(() => timeline.stop());
+  }
+
+  return timeline;
+};
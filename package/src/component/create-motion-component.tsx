@@ -1,11 +1,11 @@
 import { mergeRefs } from "@solid-primitives/refs";
 import { resolveElements } from "@solid-primitives/refs";
 import {
-  HTMLProjectionNode,
   HTMLVisualElement,
   SVGVisualElement,
   animateVisualElement,
   frame,
+  getFeatureDefinitions,
   isControllingVariants,
   isMotionValue,
   isVariantLabel,
@@ -28,7 +28,7 @@ import {
   splitProps,
   untrack,
 } from "solid-js";
-import { Dynamic } from "solid-js/web";
+import { Dynamic, isDev } from "solid-js/web";
 import type {
   ElementInstance,
   ElementTag,
@@ -37,10 +37,16 @@ import type {
   MotionStyle,
 } from "../types";
 import { isSVGElement } from "../types";
+import { observeScrollTimelines } from "../animation/scroll-timeline";
 import { createDomVisualElement } from "./create-dom-visual-element";
 import { filterProps } from "./filter-props";
-import { initFeatureDefinitions } from "./feature-definitions";
+import {
+  isFeatureEnabled,
+  loadFeatures,
+  type FeatureBundle,
+} from "./feature-definitions";
 import { useLayoutGroupContext } from "./layout-group-context";
+import { useLazyContext } from "./lazy-motion";
 import {
   MotionContext,
   useMotionContext,
@@ -516,12 +522,12 @@ const copyRawValuesOnly = (
   source: MotionStyle | undefined,
   props: MotionOptions,
 ) => {
-  if (!source || typeof source === "string") return;
-
-  for (const key in source) {
-    const value = source[key as keyof MotionStyle];
-    if (!isMotionValue(value) && key !== "transformTemplate") {
-      target[key] = value;
+  if (source && typeof source !== "string") {
+    for (const key in source) {
+      const value = source[key as keyof MotionStyle];
+      if (!isMotionValue(value) && key !== "transformTemplate") {
+        target[key] = value;
+      }
     }
   }
 
@@ -532,6 +538,14 @@ const copyRawValuesOnly = (
     target.touchAction =
       props.drag === true ? "none" : props.drag === "x" ? "pan-y" : "pan-x";
   }
+
+  // Without this, the browser's own pinch-zoom takes over and cancels the
+  // pointers, so pinch callbacks would never fire either.
+  if (isFeatureEnabled("pinch")(props)) {
+    target.userSelect = "none";
+    target.WebkitUserSelect = "none";
+    target.touchAction = "none";
+  }
 };
 
 const getCurrentTreeVariants = (
@@ -770,11 +784,21 @@ const getTransitionRuntimeMs = (definition: unknown) => {
   return Number.isFinite(duration) ? duration * 1000 + 100 : undefined;
 };
 
-export const createMotionComponent = <Tag extends ElementTag = "div">(
+/**
+ * Create a motion component for `component`.
+ *
+ * The component uses the features in `preloadedFeatures`, plus any that have
+ * been loaded by `LazyMotion`. Without `preloadedFeatures` it behaves like an
+ * `m` component. The public `createMotionComponent` always passes `domMax`.
+ */
+export const createMotionComponentWithFeatures = <
+  Tag extends ElementTag = "div",
+>(
   component: Tag | ValidComponent,
   options: MotionComponentOptions = {},
+  preloadedFeatures?: FeatureBundle,
 ): Component<MotionProps<Tag>> => {
-  initFeatureDefinitions();
+  if (preloadedFeatures) loadFeatures(preloadedFeatures);
 
   const isSVG = options.type
     ? options.type === "svg"
@@ -788,8 +812,18 @@ export const createMotionComponent = <Tag extends ElementTag = "div">(
     const layoutGroup = useLayoutGroupContext();
     const switchLayoutGroup = useSwitchLayoutGroupContext();
     const motionConfig = useMotionConfig();
+    const lazyContext = useLazyContext();
     const presence = usePresenceContext();
     const presenceId = createUniqueId();
+
+    // Unlike motion-utils' `invariant`, this also throws in browsers, where
+    // there's no `process`.
+    if (isDev && preloadedFeatures && lazyContext?.strict) {
+      throw new Error(
+        "You have rendered a `motion` component within a `LazyMotion` component. This will break tree shaking. Import and render a `m` component instead.",
+      );
+    }
+
     let currentElement: ElementInstance<Tag> | null = null;
     let childListObserver: MutationObserver | undefined;
     let isSyncingChildListLayout = false;
@@ -1051,6 +1085,13 @@ export const createMotionComponent = <Tag extends ElementTag = "div">(
       isSVG,
     });
 
+    onCleanup(
+      observeScrollTimelines(
+        visualElement,
+        () => motionConfig?.nativeScrollTimeline() ?? true,
+      ),
+    );
+
     const unregisterPresence = presence?.register?.(presenceId);
     if (unregisterPresence) {
       onCleanup(unregisterPresence);
@@ -1060,7 +1101,10 @@ export const createMotionComponent = <Tag extends ElementTag = "div">(
       if (typeof window === "undefined" || visualElement.projection) return;
       if (!shouldCreateProjectionNode(nodeOptions)) return;
 
-      visualElement.projection = new HTMLProjectionNode(
+      const { ProjectionNode } = getFeatureDefinitions().layout ?? {};
+      if (!ProjectionNode) return;
+
+      visualElement.projection = new ProjectionNode(
         visualElement.latestValues,
         nodeOptions["data-framer-portal-id"]
           ? undefined
@@ -1337,6 +1381,8 @@ export const createMotionComponent = <Tag extends ElementTag = "div">(
     createRenderEffect(() => {
       const props = resolvedMotionOptions();
       const mounted = hasMounted();
+      // Features loaded by `LazyMotion` are picked up on the next update.
+      lazyContext?.isLoaded();
 
       ensureProjectionNode(props);
       updateProjectionOptions(props);
@@ -1533,6 +1579,7 @@ export const createMotionComponent = <Tag extends ElementTag = "div">(
       if (!hasMounted()) return;
 
       resolvedMotionOptions();
+      lazyContext?.isLoaded();
       const currentIsPresent = isPresent();
       const currentAnimationChangesId = ++animationChangesId;
       const runAnimationChanges = () => {
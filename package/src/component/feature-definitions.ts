@@ -1,11 +1,17 @@
-import { setFeatureDefinitions } from "motion-dom";
-import { AnimationFeature } from "../features/animation-feature";
-import { DragFeature } from "../features/drag-feature";
-import { FocusFeature } from "../features/focus-feature";
-import { HoverFeature } from "../features/hover-feature";
-import { InViewFeature } from "../features/inview-feature";
-import { PanFeature } from "../features/pan-feature";
-import { PressFeature } from "../features/press-feature";
+import { getFeatureDefinitions, setFeatureDefinitions } from "motion-dom";
+
+type MotionDomFeatureBundle = Parameters<typeof setFeatureDefinitions>[0];
+
+/**
+ * A set of features `motion` components can load, such as `domAnimation`
+ * or `domMax`. Besides motion-dom's own features, this includes the ones
+ * implemented here, like `pinch` and `dropZone`.
+ */
+export type FeatureBundle = MotionDomFeatureBundle & {
+  pinch?: MotionDomFeatureBundle["pan"];
+  dropZone?: MotionDomFeatureBundle["pan"];
+  gestureState?: MotionDomFeatureBundle["pan"];
+};
 
 const featureProps = {
   animation: [
@@ -20,67 +26,37 @@ const featureProps = {
   ],
   drag: ["drag", "dragControls"],
   hover: ["whileHover", "onHoverStart", "onHoverEnd"],
-  tap: ["whileTap", "onTap", "onTapStart", "onTapCancel"],
-  pan: ["onPan", "onPanStart", "onPanSessionStart", "onPanEnd"],
+  tap: [
+    "whileTap",
+    "onTap",
+    "onTapStart",
+    "onTapCancel",
+    "whileLongPress",
+    "onLongPressStart",
+    "onLongPress",
+  ],
+  pan: ["onPan", "onPanStart", "onPanSessionStart", "onPanEnd", "onSwipe"],
+  pinch: ["pinch", "whilePinch", "onPinchStart", "onPinch", "onPinchEnd"],
+  dropZone: ["dropZone"],
   inView: ["whileInView", "onViewportEnter", "onViewportLeave"],
   focus: ["whileFocus"],
   layout: ["layout", "layoutId"],
+  gestureState: ["gestureState"],
 } as const;
 
-let initialized = false;
-
-const hasFeatureProp = (
-  props: Record<string, unknown>,
-  keys: readonly string[],
-) => keys.some((name) => Boolean(props[name]));
-
-export const initFeatureDefinitions = () => {
-  if (initialized) return;
-
-  setFeatureDefinitions({
-    animation: {
-      Feature: AnimationFeature as never,
-      isEnabled: (props) =>
-        hasFeatureProp(
-          props as Record<string, unknown>,
-          featureProps.animation,
-        ),
-    },
-    drag: {
-      Feature: DragFeature as never,
-      isEnabled: (props) =>
-        hasFeatureProp(props as Record<string, unknown>, featureProps.drag),
-    },
-    hover: {
-      Feature: HoverFeature as never,
-      isEnabled: (props) =>
-        hasFeatureProp(props as Record<string, unknown>, featureProps.hover),
-    },
-    tap: {
-      Feature: PressFeature as never,
-      isEnabled: (props) =>
-        hasFeatureProp(props as Record<string, unknown>, featureProps.tap),
-    },
-    pan: {
-      Feature: PanFeature as never,
-      isEnabled: (props) =>
-        hasFeatureProp(props as Record<string, unknown>, featureProps.pan),
-    },
-    inView: {
-      Feature: InViewFeature as never,
-      isEnabled: (props) =>
-        hasFeatureProp(props as Record<string, unknown>, featureProps.inView),
-    },
-    focus: {
-      Feature: FocusFeature as never,
-      isEnabled: (props) =>
-        hasFeatureProp(props as Record<string, unknown>, featureProps.focus),
-    },
-    layout: {
-      isEnabled: (props) =>
-        hasFeatureProp(props as Record<string, unknown>, featureProps.layout),
-    },
-  } as Parameters<typeof setFeatureDefinitions>[0]);
+/**
+ * Whether any of the props that enable `feature` are set.
+ */
+export const isFeatureEnabled =
+  (feature: keyof typeof featureProps) => (props: object) =>
+    featureProps[feature].some((name) =>
+      Boolean((props as Record<string, unknown>)[name]),
+    );
 
-  initialized = true;
+/**
+ * Make `bundle` available to every `motion` and `m` component. Components
+ * that are already mounted pick the features up on their next update.
+ */
+export const loadFeatures = (bundle: FeatureBundle) => {
+  setFeatureDefinitions({ ...getFeatureDefinitions(), ...bundle });
 };
@@ -0,0 +1,97 @@
+import type { Accessor, FlowComponent } from "solid-js";
+import {
+  createContext,
+  createSignal,
+  onCleanup,
+  untrack,
+  useContext,
+} from "solid-js";
+import { loadFeatures, type FeatureBundle } from "./feature-definitions";
+
+/**
+ * A function that loads a `FeatureBundle`, usually a dynamic import.
+ */
+export type LazyFeatureBundle = () => Promise<
+  FeatureBundle | { default: FeatureBundle }
+>;
+
+export interface LazyContextValue {
+  strict: boolean;
+  /**
+   * Whether the features passed to `LazyMotion` have been loaded.
+   */
+  isLoaded: Accessor<boolean>;
+}
+
+export const LazyContext = createContext<LazyContextValue | null>(null);
+
+export const useLazyContext = () => useContext(LazyContext);
+
+export interface LazyMotionProps {
+  /**
+   * The features `m` components inside can use. Pass a bundle to load it
+   * right away, or a function returning a promise of one to load it after
+   * the first render.
+   */
+  features: FeatureBundle | LazyFeatureBundle;
+  /**
+   * Throw when a `motion` component, which always loads every feature, is
+   * rendered inside. Use `m` components instead.
+   *
+   * @default false
+   */
+  strict?: boolean;
+}
+
+const isLazyBundle = (
+  features: FeatureBundle | LazyFeatureBundle,
+): features is LazyFeatureBundle => typeof features === "function";
+
+/**
+ * Load motion features for `m` components, either synchronously or from a
+ * separate chunk.
+ *
+ * `m` components render their initial styles straight away and start
+ * animating once the features they use have loaded.
+ *
+ * @example
+ * ```tsx
+ * const loadFeatures = () =>
+ *   import("./features").then((module) => module.domAnimation);
+ *
+ * <LazyMotion features={loadFeatures} strict>
+ *   <m.div animate={{ opacity: 1 }} />
+ * </LazyMotion>;
+ * ```
+ */
+export const LazyMotion: FlowComponent<LazyMotionProps> = (props) => {
+  const features = untrack(() => props.features);
+  const [isLoaded, setIsLoaded] = createSignal(!isLazyBundle(features));
+
+  if (isLazyBundle(features)) {
+    let isDisposed = false;
+    onCleanup(() => {
+      isDisposed = true;
+    });
+
+    void features().then((loaded) => {
+      loadFeatures("default" in loaded ? loaded.default : loaded);
+      if (!isDisposed) setIsLoaded(true);
+    });
+  } else {
+    loadFeatures(features);
+  }
+
+  return (
+    <LazyContext.Provider
+      value={{
+        get strict() {
+          return props.strict ?? false;
+        },
+        isLoaded,
+      }}
+    >
+      {props.children}
+    </LazyContext.Provider>
+  );
+};
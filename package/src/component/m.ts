@@ -0,0 +1,7 @@
+import { createMotionProxy } from "./motion-proxy";
+
+/**
+ * Motion components without any features loaded. Render them inside
+ * `LazyMotion` to load the features they use.
+ */
+export const m = /* @__PURE__ */ createMotionProxy();
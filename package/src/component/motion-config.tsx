@@ -14,6 +14,7 @@ export interface MotionConfigContextValue {
   transition: Accessor<Transition | undefined>;
   reducedMotion: Accessor<ReducedMotionConfig>;
   isReducedMotion: Accessor<boolean>;
+  nativeScrollTimeline: Accessor<boolean>;
 }
 
 export const MotionConfigContext =
@@ -33,6 +34,14 @@ export interface MotionConfigProps {
    * while other animations like opacity and colors persist.
    */
   reducedMotion?: ReducedMotionConfig;
+  /**
+   * Whether animations with `transition.scrollTimeline` may run on a native
+   * `ScrollTimeline`/`ViewTimeline` when the browser supports it. Set to
+   * `false` to always follow scroll from JS.
+   *
+   * @default true
+   */
+  nativeScrollTimeline?: boolean;
   children?: JSX.Element;
 }
 
@@ -110,6 +119,10 @@ export const MotionConfig: FlowComponent<MotionConfigProps> = (props) => {
     return props.reducedMotion ?? parent?.reducedMotion() ?? "never";
   });
 
+  const nativeScrollTimeline = createMemo<boolean>(() => {
+    return props.nativeScrollTimeline ?? parent?.nativeScrollTimeline() ?? true;
+  });
+
   const isReducedMotion = createMemo<boolean>(() => {
     const config = reducedMotion();
     if (config === "always") return true;
@@ -119,7 +132,12 @@ export const MotionConfig: FlowComponent<MotionConfigProps> = (props) => {
 
   return (
     <MotionConfigContext.Provider
-      value={{ transition, reducedMotion, isReducedMotion }}
+      value={{
+        transition,
+        reducedMotion,
+        isReducedMotion,
+        nativeScrollTimeline,
+      }}
     >
       {props.children}
     </MotionConfigContext.Provider>
@@ -19,10 +19,19 @@ export const motionKeys: readonly (keyof MotionOptions)[] = [
   "onPanSessionStart",
   "onPanEnd",
 
+  // swipe
+  "swipe",
+  "swipeThreshold",
+  "swipeVelocity",
+  "onSwipe",
+
   // hover
   "whileHover",
   "onHoverStart",
   "onHoverEnd",
+  "hoverDelay",
+  "hoverPointerTypes",
+  "hoverCancelOnScroll",
 
   // tap
   "onTap",
@@ -31,6 +40,13 @@ export const motionKeys: readonly (keyof MotionOptions)[] = [
   "whileTap",
   "globalTapTarget",
 
+  // long press
+  "whileLongPress",
+  "longPressDelay",
+  "longPressTolerance",
+  "onLongPressStart",
+  "onLongPress",
+
   // focus
   "whileFocus",
 
@@ -52,10 +68,31 @@ export const motionKeys: readonly (keyof MotionOptions)[] = [
   "dragControls",
   "dragSnapToOrigin",
   "dragListener",
+  "dragKeyboard",
+  "dragActivationConstraint",
+  "dragSnapPoints",
+  "dragAutoScroll",
+  "onSnap",
   "onMeasureDragConstraints",
   "_dragX",
   "_dragY",
 
+  // pinch
+  "pinch",
+  "pinchConstraints",
+  "whilePinch",
+  "onPinchStart",
+  "onPinch",
+  "onPinchEnd",
+
+  // drop zones
+  "dragData",
+  "dropZone",
+  "whileDragOver",
+  "onDropZoneEnter",
+  "onDropZoneLeave",
+  "onDropZoneDrop",
+
   // drag handlers
   "onDragStart",
   "onDrag",
@@ -64,6 +101,7 @@ export const motionKeys: readonly (keyof MotionOptions)[] = [
   "onDragTransitionEnd",
 
   // advanced
+  "gestureState",
   "custom",
   "inherit",
   "ignoreStrict",
@@ -0,0 +1,70 @@
+import type { Component } from "solid-js";
+import type { ElementTag, HTMLElements, SVGElements } from "../types";
+import {
+  createMotionComponentWithFeatures,
+  type MotionComponentOptions,
+  type MotionProps,
+} from "./create-motion-component";
+import type { FeatureBundle } from "./feature-definitions";
+
+export type MotionProxy = {
+  [Tag in keyof HTMLElements]: Component<MotionProps<Tag>>;
+} & {
+  [Tag in keyof SVGElements]: Component<MotionProps<Tag>>;
+} & {
+  create<Props extends Record<string, unknown>>(
+    component: Component<Props>,
+    options?: MotionComponentOptions,
+  ): Component<Props & MotionProps<ElementTag>>;
+};
+
+/**
+ * Create a proxy whose properties are motion components for each tag,
+ * created on first access and loading `preloadedFeatures`.
+ */
+export const createMotionProxy = (
+  preloadedFeatures?: FeatureBundle,
+): MotionProxy => {
+  const componentCache = new Map<string, Component<MotionProps<ElementTag>>>();
+
+  const getMotionComponent = <Tag extends ElementTag>(
+    tag: Tag,
+  ): Component<MotionProps<Tag>> => {
+    const cached = componentCache.get(tag);
+    if (cached) {
+      return cached as Component<MotionProps<Tag>>;
+    }
+
+    const component = createMotionComponentWithFeatures(
+      tag,
+      {},
+      preloadedFeatures,
+    );
+    componentCache.set(tag, component as Component<MotionProps<ElementTag>>);
+    return component;
+  };
+
+  return new Proxy(
+    {
+      create<Props extends Record<string, unknown>>(
+        component: Component<Props>,
+        options?: MotionComponentOptions,
+      ) {
+        return createMotionComponentWithFeatures(
+          component as unknown as Component<Record<string, unknown>>,
+          options,
+          preloadedFeatures,
+        ) as unknown as Component<Props & MotionProps<ElementTag>>;
+      },
+    } as MotionProxy,
+    {
+      get(target, key: string) {
+        if (key === "create") {
+          return target.create;
+        }
+
+        return getMotionComponent(key as ElementTag);
+      },
+    },
+  );
+};
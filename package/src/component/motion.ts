@@ -0,0 +1,26 @@
+import type { Component, ValidComponent } from "solid-js";
+import { domMax } from "../features/dom-max";
+import type { ElementTag } from "../types";
+import {
+  createMotionComponentWithFeatures,
+  type MotionComponentOptions,
+  type MotionProps,
+} from "./create-motion-component";
+import { createMotionProxy } from "./motion-proxy";
+
+export type { MotionProxy } from "./motion-proxy";
+
+/**
+ * Create a motion component for `component` with every feature loaded,
+ * like the ones on `motion`.
+ */
+export const createMotionComponent = <Tag extends ElementTag = "div">(
+  component: Tag | ValidComponent,
+  options: MotionComponentOptions = {},
+): Component<MotionProps<Tag>> =>
+  createMotionComponentWithFeatures<Tag>(component, options, domMax);
+
+/**
+ * Motion components with every feature loaded.
+ */
+export const motion = /* @__PURE__ */ createMotionProxy(domMax);
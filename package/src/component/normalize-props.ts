@@ -164,6 +164,9 @@ export const normalizeMotionOptions = (
     whileFocus: normalizeWhileDefinition(options.whileFocus),
     whileInView: normalizeWhileDefinition(options.whileInView),
     whileDrag: normalizeWhileDefinition(options.whileDrag),
+    whilePinch: normalizeWhileDefinition(options.whilePinch),
+    whileLongPress: normalizeWhileDefinition(options.whileLongPress),
+    whileDragOver: normalizeWhileDefinition(options.whileDragOver),
     variants: normalizeVariants(
       options.variants as Variants<ElementTag> | undefined,
     ),
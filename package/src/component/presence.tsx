@@ -3,12 +3,14 @@ import {
   createMemo,
   createSignal,
   createUniqueId,
+  getOwner,
   onCleanup,
   onMount,
   useContext,
   type Accessor,
   type FlowComponent,
   type JSX,
+  type Owner,
 } from "solid-js";
 import { createListTransition } from "@solid-primitives/transition-group";
 import { resolveElements } from "@solid-primitives/refs";
@@ -47,6 +49,7 @@ type MotionExitMarker = Element & {
   __motionShouldExit?: boolean;
   __motionPopCleanup?: VoidFunction;
   __motionHandleExitComplete?: VoidFunction;
+  __motionExitCleanup?: VoidFunction;
 };
 
 type PendingExit = {
@@ -57,6 +60,16 @@ export const PresenceContext = createContext<PresenceContextValue | null>(null);
 
 export const usePresenceContext = () => useContext(PresenceContext);
 
+const ownerPresenceIds = new WeakMap<Owner, string>();
+
+/**
+ * The id of the latest subscribed `usePresence()` call made under `owner`.
+ * Lets other primitives in the same component hold an exit open until that
+ * hook's `safeToRemove()` is called.
+ */
+export const getOwnerPresenceId = (owner: Owner | null) =>
+  owner ? ownerPresenceIds.get(owner) : undefined;
+
 export const usePresence = (
   subscribe = true,
 ): [Accessor<boolean>, VoidFunction | undefined] => {
@@ -71,6 +84,11 @@ export const usePresence = (
     onCleanup(unregister);
   }
 
+  const owner = getOwner();
+  if (subscribe && owner) {
+    ownerPresenceIds.set(owner, id);
+  }
+
   const safeToRemove = () => {
     presence.onExitComplete(id);
   };
@@ -291,6 +309,8 @@ const AnimatePresenceContent: FlowComponent<AnimatePresenceContentProps> = (
             clearForceExitTimeout();
             marker.__motionPopCleanup?.();
             delete marker.__motionPopCleanup;
+            marker.__motionExitCleanup?.();
+            delete marker.__motionExitCleanup;
             delete marker.__motionShouldExit;
             delete marker.__motionHandleExitComplete;
             finishRemoved([element]);
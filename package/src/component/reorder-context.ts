@@ -0,0 +1,59 @@
+import { createContext, useContext, type Accessor } from "solid-js";
+import { mixNumber } from "motion-dom";
+import { moveItem, type Axis, type Box } from "motion-utils";
+
+export interface ReorderItemData<V> {
+  value: V;
+  layout: Axis;
+}
+
+export interface ReorderContextValue<V> {
+  axis: Accessor<"x" | "y">;
+  values: Accessor<V[]>;
+  registerItem: (value: V, layout: Box) => void;
+  unregisterItem: (value: V) => void;
+  updateOrder: (value: V, offset: number, velocity: number) => void;
+}
+
+export const ReorderContext =
+  createContext<ReorderContextValue<unknown> | null>(null);
+
+export const useReorderContext = <V>() =>
+  useContext(ReorderContext) as ReorderContextValue<V> | null;
+
+/**
+ * Move `value` one place towards `velocity` once the dragged item has
+ * crossed the center of the item next to it. Returns `order` unchanged when
+ * it stays put.
+ */
+export const checkReorder = <V>(
+  order: ReorderItemData<V>[],
+  value: V,
+  offset: number,
+  velocity: number,
+): ReorderItemData<V>[] => {
+  if (!velocity) return order;
+
+  const index = order.findIndex((item) => item.value === value);
+  if (index === -1) return order;
+
+  const direction = velocity > 0 ? 1 : -1;
+  const nextItem = order[index + direction];
+  if (!nextItem) return order;
+
+  const { layout } = order[index]!;
+  const nextItemCenter = mixNumber(
+    nextItem.layout.min,
+    nextItem.layout.max,
+    0.5,
+  );
+
+  if (
+    (direction === 1 && layout.max + offset > nextItemCenter) ||
+    (direction === -1 && layout.min + offset < nextItemCenter)
+  ) {
+    return moveItem(order, index, index + direction);
+  }
+
+  return order;
+};
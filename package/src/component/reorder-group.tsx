@@ -0,0 +1,123 @@
+import { createEffect, on, splitProps, untrack, type JSX } from "solid-js";
+import type { ElementTag } from "../types";
+import type { MotionProps } from "./create-motion-component";
+import { motion } from "./motion";
+import {
+  checkReorder,
+  ReorderContext,
+  type ReorderContextValue,
+  type ReorderItemData,
+} from "./reorder-context";
+
+export type ReorderGroupProps<V, Tag extends ElementTag = "ul"> = Omit<
+  MotionProps<Tag>,
+  "values"
+> & {
+  /**
+   * The element to render.
+   *
+   * @default "ul"
+   */
+  as?: Tag;
+  /**
+   * The direction items are dragged and reordered in.
+   *
+   * @default "y"
+   */
+  axis?: "x" | "y";
+  /**
+   * The values of the `Reorder.Item`s in this group, in order.
+   */
+  values: V[];
+  /**
+   * Called with the new order of `values` when an item is dragged past a
+   * sibling. Set it back into `values` to move the item.
+   */
+  onReorder: (newOrder: V[]) => void;
+};
+
+const compareMin = <V,>(a: ReorderItemData<V>, b: ReorderItemData<V>) =>
+  a.layout.min - b.layout.min;
+
+/**
+ * A list whose `Reorder.Item` children can be reordered by dragging.
+ *
+ * @example
+ * ```tsx
+ * const [items, setItems] = createSignal(["Apple", "Banana", "Cherry"]);
+ *
+ * return (
+ *   <Reorder.Group values={items()} onReorder={setItems}>
+ *     <For each={items()}>
+ *       {(item) => <Reorder.Item value={item}>{item}</Reorder.Item>}
+ *     </For>
+ *   </Reorder.Group>
+ * );
+ * ```
+ */
+export const ReorderGroup = <V, Tag extends ElementTag = "ul">(
+  props: ReorderGroupProps<V, Tag>,
+): JSX.Element => {
+  const [local, others] = splitProps(props as ReorderGroupProps<V, "ul">, [
+    "as",
+    "axis",
+    "values",
+    "onReorder",
+  ]);
+
+  const Component = motion[untrack(() => local.as) ?? "ul"];
+  const order: ReorderItemData<V>[] = [];
+  let isReordering = false;
+
+  // Only report one reorder per update of `values`, so an item isn't moved
+  // twice against layouts measured before the first move was rendered.
+  createEffect(
+    on(
+      () => local.values,
+      () => {
+        isReordering = false;
+      },
+    ),
+  );
+
+  const context: ReorderContextValue<V> = {
+    axis: () => local.axis ?? "y",
+    values: () => local.values,
+    registerItem(value, layout) {
+      const axisLayout = layout[context.axis()];
+      const existing = order.find((item) => item.value === value);
+
+      if (existing) {
+        existing.layout = axisLayout;
+      } else {
+        order.push({ value, layout: axisLayout });
+      }
+
+      order.sort(compareMin);
+    },
+    unregisterItem(value) {
+      const index = order.findIndex((item) => item.value === value);
+      if (index !== -1) order.splice(index, 1);
+    },
+    updateOrder(value, offset, velocity) {
+      if (isReordering) return;
+
+      const newOrder = checkReorder(order, value, offset, velocity);
+      if (newOrder === order) return;
+
+      isReordering = true;
+      const values = local.values;
+      local.onReorder(
+        newOrder
+          .map((item) => item.value)
+          .filter((item) => values.includes(item)),
+      );
+    },
+  };
+
+  return (
+    <ReorderContext.Provider value={context as ReorderContextValue<unknown>}>
+      <Component {...others} />
+    </ReorderContext.Provider>
+  );
+};
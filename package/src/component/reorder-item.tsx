@@ -0,0 +1,97 @@
+import { createMemo, onCleanup, splitProps, untrack, type JSX } from "solid-js";
+import { isMotionValue, type MotionValue, type PanInfo } from "motion-dom";
+import { invariant } from "motion-utils";
+import type { DragGestureEvent, ElementTag } from "../types";
+import { createMotionValue } from "../values/create-motion-value";
+import { createTransform } from "../values/create-transform";
+import type { MotionProps } from "./create-motion-component";
+import { motion } from "./motion";
+import { useReorderContext } from "./reorder-context";
+
+export type ReorderItemProps<V, Tag extends ElementTag = "li"> = Omit<
+  MotionProps<Tag>,
+  "value"
+> & {
+  /**
+   * The element to render.
+   *
+   * @default "li"
+   */
+  as?: Tag;
+  /**
+   * The entry of the group's `values` this item represents.
+   */
+  value: V;
+};
+
+const toMotionValue = (value: unknown): MotionValue<number> =>
+  isMotionValue(value)
+    ? (value as MotionValue<number>)
+    : createMotionValue(typeof value === "number" ? value : 0);
+
+/**
+ * An item of a `Reorder.Group` that can be dragged to a new position.
+ *
+ * Items animate to their new layout as the group's `values` change, and are
+ * raised above their siblings while they're dragged or returning to place.
+ */
+export const ReorderItem = <V, Tag extends ElementTag = "li">(
+  props: ReorderItemProps<V, Tag>,
+): JSX.Element => {
+  const context = useReorderContext<V>();
+  invariant(Boolean(context), "Reorder.Item must be a child of Reorder.Group");
+
+  const [local, others] = splitProps(props as ReorderItemProps<V, "li">, [
+    "as",
+    "value",
+    "style",
+    "layout",
+    "layoutDependency",
+    "onDrag",
+    "onLayoutMeasure",
+  ]);
+
+  const Component = motion[untrack(() => local.as) ?? "li"];
+  const point = untrack(() => ({
+    x: toMotionValue(local.style?.x),
+    y: toMotionValue(local.style?.y),
+  }));
+  const zIndex = createTransform<number, string>(
+    [point.x, point.y],
+    ([x, y]) => (x || y ? "1" : "unset"),
+  );
+
+  // Changing order moves DOM nodes without changing any props, so use it to
+  // snapshot the layout before the move.
+  const layoutDependency = createMemo(() => ({
+    order: context!.values(),
+    dependency: local.layoutDependency,
+  }));
+
+  onCleanup(() => context!.unregisterItem(untrack(() => local.value)));
+
+  return (
+    <Component
+      drag={context!.axis()}
+      {...others}
+      dragSnapToOrigin
+      layout={local.layout ?? true}
+      layoutDependency={layoutDependency()}
+      style={{ ...local.style, x: point.x, y: point.y, "z-index": zIndex }}
+      onDrag={(event: DragGestureEvent, info?: PanInfo) => {
+        if (!info) return;
+
+        const axis = context!.axis();
+        const velocity = info.velocity[axis];
+        if (velocity) {
+          context!.updateOrder(local.value, point[axis].get(), velocity);
+        }
+        local.onDrag?.(event, info);
+      }}
+      onLayoutMeasure={(box, prevBox) => {
+        context!.registerItem(local.value, box);
+        local.onLayoutMeasure?.(box, prevBox);
+      }}
+    />
+  );
+};
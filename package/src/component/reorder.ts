@@ -0,0 +1,10 @@
+import { ReorderGroup } from "./reorder-group";
+import { ReorderItem } from "./reorder-item";
+
+/**
+ * Components for lists that can be reordered by dragging.
+ */
+export const Reorder = {
+  Group: ReorderGroup,
+  Item: ReorderItem,
+};
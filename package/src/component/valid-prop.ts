@@ -14,12 +14,18 @@ const validMotionProps = new Set([
   "onAnimationStart",
   "onAnimationComplete",
   "onUpdate",
+  "onSwipe",
+  "onSnap",
   "onDragStart",
   "onDrag",
   "onDragEnd",
   "onMeasureDragConstraints",
   "onDirectionLock",
   "onDragTransitionEnd",
+  "dropZone",
+  "onDropZoneEnter",
+  "onDropZoneLeave",
+  "onDropZoneDrop",
   "_dragX",
   "_dragY",
   "onHoverStart",
@@ -27,6 +33,7 @@ const validMotionProps = new Set([
   "onViewportEnter",
   "onViewportLeave",
   "globalTapTarget",
+  "gestureState",
   "ignoreStrict",
   "viewport",
   "data-framer-portal-id",
@@ -39,6 +46,12 @@ export const isValidMotionProp = (key: string) => {
     key.startsWith("layout") ||
     key.startsWith("onTap") ||
     key.startsWith("onPan") ||
+    key.startsWith("onPinch") ||
+    key.startsWith("onLongPress") ||
+    key.startsWith("longPress") ||
+    key.startsWith("hover") ||
+    key.startsWith("swipe") ||
+    key.startsWith("pinch") ||
     key.startsWith("onLayout") ||
     validMotionProps.has(key)
   );
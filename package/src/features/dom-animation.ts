@@ -0,0 +1,41 @@
+import {
+  isFeatureEnabled,
+  type FeatureBundle,
+} from "../component/feature-definitions";
+import { AnimationFeature } from "./animation-feature";
+import { FocusFeature } from "./focus-feature";
+import { GestureStateFeature } from "./gesture-state-feature";
+import { HoverFeature } from "./hover-feature";
+import { InViewFeature } from "./inview-feature";
+import { PressFeature } from "./press-feature";
+
+/**
+ * Animations, variants, exit animations and the hover, tap, focus and
+ * in-view gestures.
+ */
+export const domAnimation: FeatureBundle = {
+  animation: {
+    Feature: AnimationFeature as never,
+    isEnabled: isFeatureEnabled("animation"),
+  },
+  hover: {
+    Feature: HoverFeature as never,
+    isEnabled: isFeatureEnabled("hover"),
+  },
+  tap: {
+    Feature: PressFeature as never,
+    isEnabled: isFeatureEnabled("tap"),
+  },
+  inView: {
+    Feature: InViewFeature as never,
+    isEnabled: isFeatureEnabled("inView"),
+  },
+  focus: {
+    Feature: FocusFeature as never,
+    isEnabled: isFeatureEnabled("focus"),
+  },
+  gestureState: {
+    Feature: GestureStateFeature as never,
+    isEnabled: isFeatureEnabled("gestureState"),
+  },
+};
@@ -0,0 +1,38 @@
+import { HTMLProjectionNode } from "motion-dom";
+import {
+  isFeatureEnabled,
+  type FeatureBundle,
+} from "../component/feature-definitions";
+import { domAnimation } from "./dom-animation";
+import { DragFeature } from "./drag-feature";
+import { DropZoneFeature } from "./drop-zone-feature";
+import { PanFeature } from "./pan-feature";
+import { PinchFeature } from "./pinch-feature";
+
+/**
+ * Everything in `domAnimation`, plus drag, drop zones, pan, pinch and layout
+ * animations.
+ */
+export const domMax: FeatureBundle = {
+  ...domAnimation,
+  drag: {
+    Feature: DragFeature as never,
+    isEnabled: isFeatureEnabled("drag"),
+  },
+  dropZone: {
+    Feature: DropZoneFeature as never,
+    isEnabled: isFeatureEnabled("dropZone"),
+  },
+  pan: {
+    Feature: PanFeature as never,
+    isEnabled: isFeatureEnabled("pan"),
+  },
+  pinch: {
+    Feature: PinchFeature as never,
+    isEnabled: isFeatureEnabled("pinch"),
+  },
+  layout: {
+    ProjectionNode: HTMLProjectionNode,
+    isEnabled: isFeatureEnabled("layout"),
+  },
+};
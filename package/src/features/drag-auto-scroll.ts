@@ -0,0 +1,91 @@
+import { clamp } from "motion-utils";
+
+type Point = {
+  x: number;
+  y: number;
+};
+
+export type ScrollContainer = Element | Window;
+
+const isScrollable = (element: Element) => {
+  const { overflowX, overflowY } = getComputedStyle(element);
+  const canScroll = (overflow: string) =>
+    overflow === "auto" || overflow === "scroll" || overflow === "overlay";
+
+  return (
+    (canScroll(overflowY) && element.scrollHeight > element.clientHeight) ||
+    (canScroll(overflowX) && element.scrollWidth > element.clientWidth)
+  );
+};
+
+/**
+ * The nearest ancestor of `element` that scrolls, or the window.
+ */
+export const findScrollContainer = (element: Element): ScrollContainer => {
+  let parent = element.parentElement;
+
+  while (parent && parent !== document.body) {
+    if (isScrollable(parent)) return parent;
+    parent = parent.parentElement;
+  }
+
+  return window;
+};
+
+const getContainerRect = (container: ScrollContainer) =>
+  container instanceof Element
+    ? container.getBoundingClientRect()
+    : { left: 0, top: 0, right: innerWidth, bottom: innerHeight };
+
+export const getScrollPosition = (container: ScrollContainer): Point =>
+  container instanceof Element
+    ? { x: container.scrollLeft, y: container.scrollTop }
+    : { x: container.scrollX, y: container.scrollY };
+
+export const scrollContainerBy = (container: ScrollContainer, delta: Point) => {
+  if (container instanceof Element) {
+    container.scrollLeft += delta.x;
+    container.scrollTop += delta.y;
+  } else {
+    container.scrollTo(
+      container.scrollX + delta.x,
+      container.scrollY + delta.y,
+    );
+  }
+};
+
+const getEdgeSpeed = (
+  position: number,
+  min: number,
+  max: number,
+  threshold: number,
+  maxSpeed: number,
+) => {
+  if (position < min + threshold) {
+    return -maxSpeed * clamp(0, 1, (min + threshold - position) / threshold);
+  }
+
+  if (position > max - threshold) {
+    return maxSpeed * clamp(0, 1, (position - (max - threshold)) / threshold);
+  }
+
+  return 0;
+};
+
+/**
+ * Scroll speed in pixels per second for a pointer at `point`, rising to
+ * `maxSpeed` as it reaches an edge of the container.
+ */
+export const getAutoScrollSpeed = (
+  container: ScrollContainer,
+  point: Point,
+  threshold: number,
+  maxSpeed: number,
+): Point => {
+  const rect = getContainerRect(container);
+
+  return {
+    x: getEdgeSpeed(point.x, rect.left, rect.right, threshold, maxSpeed),
+    y: getEdgeSpeed(point.y, rect.top, rect.bottom, threshold, maxSpeed),
+  };
+};
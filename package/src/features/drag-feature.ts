@@ -2,7 +2,11 @@ import {
   Feature,
   addValueToWillChange,
   animateMotionValue,
+  cancelFrame,
+  delay,
   frame,
+  frameData,
+  isElementKeyboardAccessible,
   isElementTextInput,
   isMotionValue,
   mixNumber,
@@ -13,8 +17,36 @@ import {
   type Transition,
   type VisualElement,
 } from "motion-dom";
-import type { MotionOptions } from "../types";
+import type {
+  DragActivationConstraint,
+  DragActivationConstraints,
+  DragGestureEvent,
+  DragKeyboardOptions,
+  DragSnapPoint,
+  DragSnapPoints,
+  MotionOptions,
+} from "../types";
+import type { Box } from "motion-utils";
 import type { DragControlOptions, DragControls } from "../gestures/use-drag";
+import {
+  findScrollContainer,
+  getAutoScrollSpeed,
+  getScrollPosition,
+  scrollContainerBy,
+  type ScrollContainer,
+} from "./drag-auto-scroll";
+import {
+  applyTransform,
+  getCumulativeTransform,
+  getParentTransform,
+  identityTransform,
+  invertTransform,
+  multiplyTransforms,
+  type LinearTransform,
+} from "./drag-transform";
+import { trackDropZones, type DropZoneTracker } from "./drop-zones";
+import { updateGestureState } from "../gestures/create-gesture-state";
+import { announce } from "./live-region";
 
 type DragAxis = "x" | "y";
 
@@ -61,8 +93,34 @@ type InternalDragControls = DragControls & {
   subscribe?: (controls: VisualElementDragControls) => VoidFunction;
 };
 
+/**
+ * HTML elements, and SVG elements which move in their parent's user units.
+ */
+type DragElement = HTMLElement | SVGElement;
+
+const isDragElement = (element: unknown): element is DragElement =>
+  element instanceof HTMLElement || element instanceof SVGElement;
+
 const noop = () => undefined;
 const defaultElastic = 0.35;
+const defaultActivationTolerance = 5;
+const defaultMomentumPower = 0.8;
+const defaultAutoScrollThreshold = 50;
+const defaultAutoScrollMaxSpeed = 800;
+const defaultKeyboardStep = 10;
+const defaultKeyboardShiftStep = 50;
+
+const arrowKeys: Record<string, { axis: DragAxis; direction: 1 | -1 }> = {
+  ArrowLeft: { axis: "x", direction: -1 },
+  ArrowRight: { axis: "x", direction: 1 },
+  ArrowUp: { axis: "y", direction: -1 },
+  ArrowDown: { axis: "y", direction: 1 },
+};
+
+const resolveKeyboardOptions = (
+  dragKeyboard: MotionOptions["dragKeyboard"],
+): DragKeyboardOptions | false =>
+  dragKeyboard === true ? {} : (dragKeyboard ?? false);
 
 const createPoint = (event: PointerEvent): Point => ({
   x: event.clientX,
@@ -87,6 +145,119 @@ const createDragInfo = (
   velocity,
 });
 
+const getDistance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const resolveActivationConstraint = (
+  constraints: DragActivationConstraints | undefined,
+  pointerType: string,
+): DragActivationConstraint => {
+  if (!constraints) return {};
+
+  const { mouse, touch, pen, ...constraint } = constraints;
+  const byPointerType: Record<string, DragActivationConstraint | undefined> = {
+    mouse,
+    touch,
+    pen,
+  };
+
+  return { ...constraint, ...byPointerType[pointerType] };
+};
+
+const springKeys = [
+  "stiffness",
+  "damping",
+  "mass",
+  "bounce",
+  "duration",
+  "visualDuration",
+] as const;
+
+/**
+ * The spring a released element snaps with. Spring options in
+ * `dragTransition` replace the defaults; the stiffness and damping defaults
+ * are left out once any of them is set, so `bounce` and `duration` apply.
+ */
+const createSnapTransition = (
+  dragTransition: Transition | undefined,
+  velocity: number,
+): Transition => {
+  const options: Record<string, unknown> = {};
+
+  [...springKeys, "restDelta", "restSpeed"].forEach((key) => {
+    const value = (dragTransition as Record<string, unknown> | undefined)?.[
+      key
+    ];
+    if (value !== undefined) options[key] = value;
+  });
+
+  const hasSpring = springKeys.some((key) => key in options);
+
+  return {
+    type: "spring",
+    velocity,
+    ...(hasSpring ? {} : { stiffness: 400, damping: 40 }),
+    restDelta: 1,
+    restSpeed: 10,
+    ...options,
+  };
+};
+
+const resolveSnapPoints = (
+  snapPoints: DragSnapPoints,
+  box: Box,
+): DragSnapPoint[] => {
+  const resolved =
+    typeof snapPoints === "function" ? snapPoints(box) : snapPoints;
+  if (Array.isArray(resolved)) return resolved;
+
+  const { x, y } = resolved;
+  if (x && y)
+    return x.flatMap((pointX) => y.map((pointY) => ({ x: pointX, y: pointY })));
+  if (x) return x.map((pointX) => ({ x: pointX }));
+  if (y) return y.map((pointY) => ({ y: pointY }));
+  return [];
+};
+
+const isWithinBounds = (value: number, { min, max }: AxisBounds) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+/**
+ * The index of the snap point nearest `target` along `axes`, ignoring
+ * points that don't set any of them or lie outside `constraints`.
+ */
+const findNearestSnapPoint = (
+  points: DragSnapPoint[],
+  target: Point,
+  axes: DragAxis[],
+  constraints: ResolvedConstraints | false,
+) => {
+  let nearestIndex = -1;
+  let nearestDistance = Infinity;
+
+  points.forEach((point, index) => {
+    const definedAxes = axes.filter((axis) => point[axis] !== undefined);
+    if (!definedAxes.length) return;
+    if (
+      constraints &&
+      !definedAxes.every((axis) =>
+        isWithinBounds(point[axis]!, constraints[axis]),
+      )
+    ) {
+      return;
+    }
+
+    const distance = Math.hypot(
+      ...definedAxes.map((axis) => point[axis]! - target[axis]),
+    );
+    if (distance < nearestDistance) {
+      nearestIndex = index;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearestIndex;
+};
+
 const shouldDrag = (
   axis: DragAxis,
   drag: MotionOptions["drag"],
@@ -145,7 +316,8 @@ const applyConstraints = (
 
 const resolveConstraints = (
   constraints: MotionOptions["dragConstraints"],
-  element: HTMLElement,
+  element: DragElement,
+  screenToLocal: LinearTransform,
   onMeasureDragConstraints?: (
     constraints: DragConstraints,
   ) => DragConstraints | void,
@@ -158,11 +330,22 @@ const resolveConstraints = (
     const parentRect = constraints.getBoundingClientRect();
     const elementRect = element.getBoundingClientRect();
 
+    // Rects are measured on screen, so convert the gaps into the units
+    // the element moves in.
+    const start = applyTransform(screenToLocal, {
+      x: parentRect.left - elementRect.left,
+      y: parentRect.top - elementRect.top,
+    });
+    const end = applyTransform(screenToLocal, {
+      x: parentRect.right - elementRect.right,
+      y: parentRect.bottom - elementRect.bottom,
+    });
+
     resolved = {
-      top: parentRect.top - elementRect.top,
-      left: parentRect.left - elementRect.left,
-      right: parentRect.right - elementRect.right,
-      bottom: parentRect.bottom - elementRect.bottom,
+      top: Math.min(start.y, end.y),
+      left: Math.min(start.x, end.x),
+      right: Math.max(start.x, end.x),
+      bottom: Math.max(start.y, end.y),
     };
   } else {
     resolved = constraints;
@@ -186,7 +369,7 @@ const resolveConstraints = (
 };
 
 class VisualElementDragControls {
-  private visualElement: VisualElement<HTMLElement>;
+  private visualElement: VisualElement<DragElement>;
   private removeDidUpdateListener: VoidFunction = noop;
   private activePointerId: number | null = null;
   private openDragLock: VoidFunction | null = null;
@@ -195,21 +378,28 @@ class VisualElementDragControls {
   private startPoint: Point = { x: 0, y: 0 };
   private lastPoint: Point = { x: 0, y: 0 };
   private lastTime = 0;
-  private latestPointerEvent: PointerEvent | null = null;
+  private latestEvent: DragGestureEvent | null = null;
   private latestDragInfo: DragInfo | null = null;
   private velocity: Point = { x: 0, y: 0 };
   private constraints: ResolvedConstraints | false = false;
   private elastic: ResolvedElastic = resolveDragElastic(undefined);
-  private dragStartOptions: DragControlOptions = {};
+  private heldArrowKeys = new Set<string>();
+  private cancelPendingStart: VoidFunction = noop;
+  private autoScrollContainer: ScrollContainer | null = null;
+  private autoScrollSpeed: Point = { x: 0, y: 0 };
+  private dropZones: DropZoneTracker | null = null;
+  private screenToLocal: LinearTransform = identityTransform;
+  private scrollToLocal: LinearTransform = identityTransform;
   isDragging = false;
+  isKeyboardDragging = false;
 
-  constructor(visualElement: VisualElement<HTMLElement>) {
+  constructor(visualElement: VisualElement<DragElement>) {
     this.visualElement = visualElement;
   }
 
   addListeners(): VoidFunction | undefined {
     const element = this.visualElement.current;
-    if (!(element instanceof HTMLElement)) return undefined;
+    if (!isDragElement(element)) return undefined;
 
     const onPointerDown = (event: PointerEvent) => {
       const { drag, dragListener = true } = this.getProps();
@@ -219,13 +409,18 @@ class VisualElementDragControls {
         target !== element &&
         isElementTextInput(target);
 
-      if (drag && dragListener && !isClickingTextInputChild) {
+      if (
+        drag &&
+        dragListener &&
+        !isClickingTextInputChild &&
+        !this.isKeyboardDragging
+      ) {
         this.start(event);
       }
     };
 
     const onPointerMove = (event: PointerEvent) => {
-      if (!this.isDragging) return;
+      if (!this.isDragging || this.isKeyboardDragging) return;
       if (
         this.activePointerId !== null &&
         event.pointerId !== this.activePointerId
@@ -233,74 +428,11 @@ class VisualElementDragControls {
         return;
       }
 
-      const point = createPoint(event);
-      const now = performance.now();
-      const delta = {
-        x: point.x - this.lastPoint.x,
-        y: point.y - this.lastPoint.y,
-      };
-      const offset = {
-        x: point.x - this.startPoint.x,
-        y: point.y - this.startPoint.y,
-      };
-      const dt = now - this.lastTime;
-
-      if (dt > 0) {
-        this.velocity = {
-          x: ((point.x - this.lastPoint.x) / dt) * 1000,
-          y: ((point.y - this.lastPoint.y) / dt) * 1000,
-        };
-      }
-
-      const info: DragInfo = {
-        point,
-        delta,
-        offset,
-        velocity: this.velocity,
-      };
-
-      this.latestPointerEvent = event;
-      this.latestDragInfo = info;
-
-      const {
-        drag,
-        dragPropagation,
-        dragDirectionLock,
-        onDirectionLock,
-        onDrag,
-      } = this.getProps();
-
-      if (!dragPropagation && !this.openDragLock) return;
-
-      if (dragDirectionLock && this.currentDirection === null) {
-        this.currentDirection = getCurrentDirection(
-          offset,
-          this.dragStartOptions.distanceThreshold ?? 10,
-        );
-
-        if (this.currentDirection !== null) {
-          onDirectionLock?.(this.currentDirection);
-        } else {
-          this.lastPoint = point;
-          this.lastTime = now;
-          return;
-        }
-      }
-
-      this.updateAxis("x", offset, drag);
-      this.updateAxis("y", offset, drag);
-
-      this.visualElement.render();
-
-      if (onDrag) {
-        frame.update(() => onDrag(event, info), false, true);
-      }
-
-      this.lastPoint = point;
-      this.lastTime = now;
+      this.move(event, createPoint(event));
     };
 
     const onPointerEnd = (event: PointerEvent) => {
+      if (this.isKeyboardDragging) return;
       if (
         this.activePointerId !== null &&
         event.pointerId !== this.activePointerId
@@ -317,20 +449,71 @@ class VisualElementDragControls {
           this.velocity,
         );
 
-      this.latestPointerEvent = event;
+      this.latestEvent = event;
       this.latestDragInfo = finalInfo;
 
       this.stop(event, finalInfo);
-      this.latestPointerEvent = null;
+      this.latestEvent = null;
       this.latestDragInfo = null;
     };
 
-    element.addEventListener("pointerdown", onPointerDown);
-    element.addEventListener("pointermove", onPointerMove);
-    element.addEventListener("pointerup", onPointerEnd);
-    element.addEventListener("pointercancel", onPointerEnd);
+    const onKeyDown = (event: KeyboardEvent) => {
+      const arrow = arrowKeys[event.key];
+      const { drag, dragKeyboard } = this.getProps();
+      const keyboardOptions = resolveKeyboardOptions(dragKeyboard);
+
+      if (!arrow || !keyboardOptions || event.target !== element) return;
+      if (!shouldDrag(arrow.axis, drag, null)) return;
+      if (this.isDragging && !this.isKeyboardDragging) return;
+
+      event.preventDefault();
+      this.heldArrowKeys.add(event.key);
+
+      if (!this.isKeyboardDragging) this.startKeyboard(event);
+      if (!this.isKeyboardDragging) return;
+
+      const step = event.shiftKey
+        ? (keyboardOptions.shiftStep ?? defaultKeyboardShiftStep)
+        : (keyboardOptions.step ?? defaultKeyboardStep);
+      const point = { ...this.lastPoint };
+      point[arrow.axis] += arrow.direction * step;
+
+      this.move(event, point);
+      announce(keyboardOptions.announcements?.onDrag?.(this.latestDragInfo!));
+    };
+
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (!this.heldArrowKeys.delete(event.key)) return;
+      if (!this.heldArrowKeys.size) this.stopKeyboard(event);
+    };
+
+    const onBlur = () => {
+      this.heldArrowKeys.clear();
+      this.stopKeyboard();
+    };
+
+    element.addEventListener("pointerdown", onPointerDown as EventListener);
+    element.addEventListener("pointermove", onPointerMove as EventListener);
+    element.addEventListener("pointerup", onPointerEnd as EventListener);
+    element.addEventListener("pointercancel", onPointerEnd as EventListener);
+    element.addEventListener("keydown", onKeyDown as EventListener);
+    element.addEventListener("keyup", onKeyUp as EventListener);
+    element.addEventListener("blur", onBlur);
+
+    this.updateKeyboardAccess();
 
     const projection = this.visualElement.projection;
+
+    // Layouts are otherwise only measured once they change, but listeners
+    // like `onLayoutMeasure` need one before the first drag. Wait a frame so
+    // the element has been inserted into the document.
+    const measureLayout = () => {
+      if (!projection || projection.layout) return;
+      projection.root?.updateScroll();
+      projection.updateLayout();
+    };
+    frame.read(measureLayout);
+
     if (projection) {
       this.removeDidUpdateListener = projection.addEventListener(
         "didUpdate",
@@ -352,55 +535,300 @@ class VisualElementDragControls {
     }
 
     return () => {
-      element.removeEventListener("pointerdown", onPointerDown);
-      element.removeEventListener("pointermove", onPointerMove);
-      element.removeEventListener("pointerup", onPointerEnd);
-      element.removeEventListener("pointercancel", onPointerEnd);
+      element.removeEventListener(
+        "pointerdown",
+        onPointerDown as EventListener,
+      );
+      element.removeEventListener(
+        "pointermove",
+        onPointerMove as EventListener,
+      );
+      element.removeEventListener("pointerup", onPointerEnd as EventListener);
+      element.removeEventListener(
+        "pointercancel",
+        onPointerEnd as EventListener,
+      );
+      element.removeEventListener("keydown", onKeyDown as EventListener);
+      element.removeEventListener("keyup", onKeyUp as EventListener);
+      element.removeEventListener("blur", onBlur);
       this.removeDidUpdateListener();
       this.removeDidUpdateListener = noop;
+      cancelFrame(measureLayout);
     };
   }
 
+  /**
+   * Start a drag once the pointer meets the activation constraint, or
+   * straight away if there isn't one.
+   */
   start(originEvent: PointerEvent, options: DragControlOptions = {}) {
+    this.cancelPendingStart();
+
+    const constraint = resolveActivationConstraint(
+      options.activationConstraint ?? this.getProps().dragActivationConstraint,
+      originEvent.pointerType,
+    );
+    const distance = options.distanceThreshold ?? constraint.distance ?? 0;
+    const delayDuration = constraint.delay ?? 0;
+    const tolerance = constraint.tolerance ?? defaultActivationTolerance;
+
+    if (distance <= 0 && delayDuration <= 0) {
+      this.activate(originEvent, options);
+      return;
+    }
+
+    const origin = createPoint(originEvent);
+    let latestEvent = originEvent;
+    let isDelayMet = delayDuration <= 0;
+
+    const tryActivate = () => {
+      const point = createPoint(latestEvent);
+      if (!isDelayMet || getDistance(origin, point) < distance) return;
+
+      this.cancelPendingStart();
+      this.activate(originEvent, options);
+      if (latestEvent !== originEvent) this.move(latestEvent, point);
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== originEvent.pointerId) return;
+
+      latestEvent = event;
+      if (!isDelayMet && getDistance(origin, createPoint(event)) > tolerance) {
+        this.cancelPendingStart();
+        return;
+      }
+
+      tryActivate();
+    };
+
+    const onPointerEnd = (event: PointerEvent) => {
+      if (event.pointerId === originEvent.pointerId) this.cancelPendingStart();
+    };
+
+    const cancelDelay =
+      delayDuration > 0
+        ? delay(() => {
+            isDelayMet = true;
+            tryActivate();
+          }, delayDuration)
+        : noop;
+
+    // Listen on the window rather than capturing the pointer, so presses
+    // that never become drags still reach the element's children.
+    window.addEventListener("pointermove", onPointerMove);
+    window.addEventListener("pointerup", onPointerEnd);
+    window.addEventListener("pointercancel", onPointerEnd);
+
+    this.cancelPendingStart = () => {
+      cancelDelay();
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerup", onPointerEnd);
+      window.removeEventListener("pointercancel", onPointerEnd);
+      this.cancelPendingStart = noop;
+    };
+  }
+
+  private activate(originEvent: PointerEvent, options: DragControlOptions) {
+    const element = this.visualElement.current;
+    if (!isDragElement(element)) return;
+
+    if (!this.startSession(originEvent, createPoint(originEvent), options)) {
+      return;
+    }
+
+    this.activePointerId = originEvent.pointerId;
+
+    try {
+      element.setPointerCapture(originEvent.pointerId);
+    } catch {
+      // Pointer capture isn't available in every environment.
+    }
+
+    const { dragAutoScroll } = this.getProps();
+    if (dragAutoScroll) {
+      const container =
+        (dragAutoScroll !== true && dragAutoScroll.container) ||
+        findScrollContainer(element);
+
+      this.autoScrollContainer = container;
+      this.scrollToLocal =
+        container instanceof Element
+          ? multiplyTransforms(
+              this.screenToLocal,
+              getCumulativeTransform(container),
+            )
+          : this.screenToLocal;
+      frame.update(this.autoScroll, true);
+    }
+  }
+
+  /**
+   * Scroll the container while the pointer is near its edges. Scrolling
+   * moves the element with the content, so the scrolled distance is added
+   * to the drag to keep the element under the pointer.
+   */
+  private autoScroll = () => {
+    const container = this.autoScrollContainer;
+    const speed = this.autoScrollSpeed;
+    if (!container || (!speed.x && !speed.y)) return;
+
+    const before = getScrollPosition(container);
+    scrollContainerBy(container, {
+      x: (speed.x * frameData.delta) / 1000,
+      y: (speed.y * frameData.delta) / 1000,
+    });
+    const after = getScrollPosition(container);
+    if (after.x === before.x && after.y === before.y) return;
+
+    const scrolled = applyTransform(this.scrollToLocal, {
+      x: after.x - before.x,
+      y: after.y - before.y,
+    });
+
+    const { drag } = this.getProps();
+    const offset = {
+      x: this.lastPoint.x - this.startPoint.x,
+      y: this.lastPoint.y - this.startPoint.y,
+    };
+
+    (["x", "y"] as const).forEach((axis) => {
+      this.originPoint[axis] += scrolled[axis];
+      this.updateAxis(axis, offset, drag);
+    });
+
+    this.visualElement.render();
+  };
+
+  private updateAutoScrollSpeed(point: Point) {
+    const { drag, dragAutoScroll } = this.getProps();
+    const container = this.autoScrollContainer;
+    if (!container || !dragAutoScroll) return;
+
+    const {
+      threshold = defaultAutoScrollThreshold,
+      maxSpeed = defaultAutoScrollMaxSpeed,
+    } = dragAutoScroll === true ? {} : dragAutoScroll;
+    const speed = getAutoScrollSpeed(container, point, threshold, maxSpeed);
+
+    this.autoScrollSpeed = {
+      x: shouldDrag("x", drag, this.currentDirection) ? speed.x : 0,
+      y: shouldDrag("y", drag, this.currentDirection) ? speed.y : 0,
+    };
+  }
+
+  /**
+   * Start a drag from the keyboard, with the element's center as the
+   * starting point.
+   */
+  private startKeyboard(event: KeyboardEvent) {
+    const element = this.visualElement.current;
+    if (!isDragElement(element)) return;
+
+    const rect = element.getBoundingClientRect();
+    const point = {
+      x: rect.left + rect.width / 2,
+      y: rect.top + rect.height / 2,
+    };
+
+    if (!this.startSession(event, point)) return;
+
+    this.isKeyboardDragging = true;
+
+    const { dragKeyboard } = this.getProps();
+    const keyboardOptions = resolveKeyboardOptions(dragKeyboard);
+    if (keyboardOptions && this.latestDragInfo) {
+      announce(
+        keyboardOptions.announcements?.onDragStart?.(this.latestDragInfo),
+      );
+    }
+  }
+
+  private stopKeyboard(event?: KeyboardEvent) {
+    if (!this.isKeyboardDragging) return;
+
+    // The element comes to rest when the keys are released, so there's no
+    // momentum to animate.
+    const info = this.latestDragInfo && {
+      ...this.latestDragInfo,
+      velocity: { x: 0, y: 0 },
+    };
+
+    this.stop(event, info ?? undefined);
+
+    const keyboardOptions = resolveKeyboardOptions(
+      this.getProps().dragKeyboard,
+    );
+    if (keyboardOptions && info) {
+      announce(keyboardOptions.announcements?.onDragEnd?.(info));
+    }
+
+    this.latestEvent = null;
+    this.latestDragInfo = null;
+  }
+
+  /**
+   * Make the element focusable when it can be dragged with the keyboard.
+   */
+  updateKeyboardAccess() {
+    const element = this.visualElement.current;
+    if (!isDragElement(element)) return;
+
+    if (
+      resolveKeyboardOptions(this.getProps().dragKeyboard) &&
+      !isElementKeyboardAccessible(element) &&
+      !element.hasAttribute("tabindex")
+    ) {
+      element.tabIndex = 0;
+    }
+  }
+
+  private startSession(
+    originEvent: DragGestureEvent,
+    originPoint: Point,
+    options: DragControlOptions = {},
+  ) {
     const { presenceContext } = this.visualElement;
-    if (presenceContext && presenceContext.isPresent === false) return;
+    if (presenceContext && presenceContext.isPresent === false) return false;
 
     const element = this.visualElement.current;
-    if (!(element instanceof HTMLElement)) return;
+    if (!isDragElement(element)) return false;
 
     const { drag, dragPropagation, onDragStart } = this.getProps();
-    if (!drag) return;
+    if (!drag) return false;
 
     if (!dragPropagation) {
       this.openDragLock?.();
       this.openDragLock = setDragLock(dragDirectionToLock(drag));
-      if (!this.openDragLock) return;
+      if (!this.openDragLock) return false;
     }
 
-    this.dragStartOptions = options;
     if (options.snapToCursor) {
-      this.snapToCursor(createPoint(originEvent));
+      this.snapToCursor(originPoint);
     }
 
     this.stopAnimation();
 
     this.isDragging = true;
     this.currentDirection = null;
-    this.activePointerId = originEvent.pointerId;
-    this.startPoint = createPoint(originEvent);
+    this.startPoint = originPoint;
     this.lastPoint = this.startPoint;
     this.lastTime = performance.now();
     this.velocity = { x: 0, y: 0 };
-    this.latestPointerEvent = originEvent;
+    this.latestEvent = originEvent;
     this.latestDragInfo = createDragInfo(
       this.startPoint,
       this.startPoint,
       this.startPoint,
       this.velocity,
     );
+    // Pointer movement is measured on screen, but scaled or rotated
+    // ancestors change how far the element moves for each pixel.
+    this.screenToLocal = invertTransform(getParentTransform(element));
     this.constraints = resolveConstraints(
       this.getProps().dragConstraints,
       element,
+      this.screenToLocal,
       this.getProps().onMeasureDragConstraints as
         | ((constraints: DragConstraints) => DragConstraints | void)
         | undefined,
@@ -432,34 +860,117 @@ class VisualElementDragControls {
           : Number.parseFloat(String(current)) || 0;
     });
 
-    try {
-      element.setPointerCapture(originEvent.pointerId);
-    } catch {
-      // Pointer capture isn't available in every environment.
-    }
+    this.dropZones = trackDropZones(element, this.getProps().dragData);
+    frame.update(this.hitTestDropZones, true);
 
-    if (onDragStart && this.latestDragInfo) {
-      frame.update(
-        () => onDragStart(originEvent, this.latestDragInfo!),
-        false,
-        true,
-      );
+    const startInfo = this.latestDragInfo;
+    if (onDragStart) {
+      frame.update(() => onDragStart(originEvent, startInfo), false, true);
     }
 
     addValueToWillChange(this.visualElement, "transform");
     this.visualElement.animationState?.setActive("whileDrag", true);
+    updateGestureState(this.visualElement, "whileDrag", true);
+
+    return true;
   }
 
-  stop(event?: PointerEvent, info?: DragInfo) {
-    const finalEvent = event ?? this.latestPointerEvent;
+  /**
+   * Move the drag to `point`, in client coordinates.
+   */
+  private move(event: DragGestureEvent, point: Point) {
+    const now = performance.now();
+    const delta = {
+      x: point.x - this.lastPoint.x,
+      y: point.y - this.lastPoint.y,
+    };
+    const offset = {
+      x: point.x - this.startPoint.x,
+      y: point.y - this.startPoint.y,
+    };
+    const dt = now - this.lastTime;
+
+    if (dt > 0) {
+      this.velocity = {
+        x: ((point.x - this.lastPoint.x) / dt) * 1000,
+        y: ((point.y - this.lastPoint.y) / dt) * 1000,
+      };
+    }
+
+    const info: DragInfo = {
+      point,
+      delta,
+      offset,
+      velocity: this.velocity,
+    };
+
+    this.latestEvent = event;
+    this.latestDragInfo = info;
+
+    const {
+      drag,
+      dragPropagation,
+      dragDirectionLock,
+      onDirectionLock,
+      onDrag,
+    } = this.getProps();
+
+    if (!dragPropagation && !this.openDragLock) return;
+
+    if (
+      dragDirectionLock &&
+      this.currentDirection === null &&
+      !this.isKeyboardDragging
+    ) {
+      this.currentDirection = getCurrentDirection(
+        applyTransform(this.screenToLocal, offset),
+      );
+
+      if (this.currentDirection !== null) {
+        onDirectionLock?.(this.currentDirection);
+      } else {
+        this.lastPoint = point;
+        this.lastTime = now;
+        return;
+      }
+    }
+
+    this.updateAxis("x", offset, drag);
+    this.updateAxis("y", offset, drag);
+    this.updateAutoScrollSpeed(point);
+
+    this.visualElement.render();
+
+    if (onDrag) {
+      frame.update(() => onDrag(event, info), false, true);
+    }
+
+    this.lastPoint = point;
+    this.lastTime = now;
+  }
+
+  /**
+   * Check which drop zone the pointer, or the element's center for
+   * keyboard drags, is over. Runs every frame so zones that scroll under a
+   * still pointer are picked up.
+   */
+  private hitTestDropZones = () => {
+    if (this.latestDragInfo) this.dropZones?.update(this.latestDragInfo);
+  };
+
+  stop(event?: DragGestureEvent, info?: DragInfo) {
+    const finalEvent = event ?? this.latestEvent;
     const finalInfo = info ?? this.latestDragInfo;
     const wasDragging = this.isDragging;
 
+    if (wasDragging && finalInfo) this.dropZones?.drop(finalInfo);
     this.cancel();
     if (!wasDragging || !finalEvent || !finalInfo) return;
 
     const { onDragEnd } = this.getProps();
-    const animation = this.startAnimation(finalInfo.velocity);
+    const animation = this.startAnimation(
+      applyTransform(this.screenToLocal, finalInfo.velocity),
+    );
 
     if (onDragEnd) {
       frame.postRender(() => onDragEnd(finalEvent, finalInfo));
@@ -471,11 +982,21 @@ class VisualElementDragControls {
   cancel() {
     const element = this.visualElement.current;
 
+    this.cancelPendingStart();
+    cancelFrame(this.autoScroll);
+    this.autoScrollContainer = null;
+    this.autoScrollSpeed = { x: 0, y: 0 };
+    cancelFrame(this.hitTestDropZones);
+    this.dropZones?.stop(this.latestDragInfo ?? undefined);
+    this.dropZones = null;
+
     this.isDragging = false;
+    this.isKeyboardDragging = false;
+    this.heldArrowKeys.clear();
     this.currentDirection = null;
 
     if (
-      element instanceof HTMLElement &&
+      isDragElement(element) &&
       this.activePointerId !== null &&
       element.hasPointerCapture(this.activePointerId)
     ) {
@@ -498,8 +1019,12 @@ class VisualElementDragControls {
     }
 
     this.visualElement.animationState?.setActive("whileDrag", false);
+    updateGestureState(this.visualElement, "whileDrag", false);
   }
 
+  /**
+   * Move `axis` by `offset`, in screen pixels, from where the drag started.
+   */
   private updateAxis(
     axis: DragAxis,
     offset: Point,
@@ -511,7 +1036,7 @@ class VisualElementDragControls {
     const current = axisValue.get();
     const start = this.originPoint[axis];
 
-    let next = start + offset[axis];
+    let next = start + applyTransform(this.screenToLocal, offset)[axis];
     if (this.constraints && this.constraints[axis]) {
       next = applyConstraints(next, this.constraints[axis], this.elastic[axis]);
     }
@@ -531,10 +1056,24 @@ class VisualElementDragControls {
       onDragTransitionEnd,
     } = this.getProps();
 
+    const snap = dragSnapToOrigin ? undefined : this.findSnapPoint(velocity);
+
     const animations = (["x", "y"] as const)
       .map((axis) => {
         if (!shouldDrag(axis, drag, this.currentDirection)) return undefined;
 
+        const snapTarget = snap?.point[axis];
+        if (snapTarget !== undefined) {
+          return this.startAxisValueAnimation(
+            axis,
+            createSnapTransition(
+              dragTransition,
+              dragMomentum === false ? 0 : velocity[axis],
+            ),
+            snapTarget,
+          );
+        }
+
         let axisBounds = this.constraints ? this.constraints[axis] : {};
         if (dragSnapToOrigin) {
           axisBounds = { min: 0, max: 0 };
@@ -558,14 +1097,72 @@ class VisualElementDragControls {
 
     return Promise.all(animations).then(() => {
       onDragTransitionEnd?.();
+      if (snap) this.getProps().onSnap?.(snap.index);
     });
   }
 
-  private startAxisValueAnimation(axis: DragAxis, transition: Transition) {
+  /**
+   * Pick the snap point nearest to where momentum would carry the element,
+   * projected the same way as the `inertia` animation.
+   */
+  private findSnapPoint(velocity: Point) {
+    const { drag, dragSnapPoints, dragMomentum, dragTransition } =
+      this.getProps();
+    if (!dragSnapPoints) return undefined;
+
+    const points = resolveSnapPoints(dragSnapPoints, this.measureBox());
+    const power =
+      dragMomentum === false
+        ? 0
+        : ((dragTransition as { power?: number } | undefined)?.power ??
+          defaultMomentumPower);
+    const projected = { x: 0, y: 0 };
+
+    (["x", "y"] as const).forEach((axis) => {
+      const current = this.getAxisMotionValue(axis).get();
+      const numericCurrent =
+        typeof current === "number"
+          ? current
+          : Number.parseFloat(String(current)) || 0;
+
+      projected[axis] = numericCurrent + power * velocity[axis];
+    });
+
+    const axes = (["x", "y"] as const).filter((axis) =>
+      shouldDrag(axis, drag, this.currentDirection),
+    );
+    const index = findNearestSnapPoint(
+      points,
+      projected,
+      axes,
+      this.constraints,
+    );
+
+    return index === -1 ? undefined : { index, point: points[index]! };
+  }
+
+  private measureBox(): Box {
+    const layout = this.visualElement.projection?.layout;
+    if (layout) return layout.layoutBox;
+
+    const rect = this.visualElement.current?.getBoundingClientRect();
+    return {
+      x: { min: rect?.left ?? 0, max: rect?.right ?? 0 },
+      y: { min: rect?.top ?? 0, max: rect?.bottom ?? 0 },
+    };
+  }
+
+  private startAxisValueAnimation(
+    axis: DragAxis,
+    transition: Transition,
+    target = 0,
+  ) {
     const axisValue = this.getAxisMotionValue(axis);
     addValueToWillChange(this.visualElement, axis);
 
-    return axisValue.start(animateMotionValue(axis, axisValue, 0, transition));
+    return axisValue.start(
+      animateMotionValue(axis, axisValue, target, transition),
+    );
   }
 
   private stopAnimation() {
@@ -660,12 +1257,12 @@ const dragDirectionToLock = (drag: MotionOptions["drag"]) =>
 
 const calcAxisLength = (min: number, max: number) => max - min;
 
-export class DragFeature extends Feature<HTMLElement> {
+export class DragFeature extends Feature<DragElement> {
   controls: VisualElementDragControls;
   private removeGroupControls: VoidFunction = noop;
   private removeListeners: VoidFunction = noop;
 
-  constructor(node: VisualElement<HTMLElement>) {
+  constructor(node: VisualElement<DragElement>) {
     super(node);
     this.controls = new VisualElementDragControls(node);
   }
@@ -682,6 +1279,8 @@ export class DragFeature extends Feature<HTMLElement> {
   }
 
   override update() {
+    this.controls.updateKeyboardAccess();
+
     const { dragControls } = this.node.getProps() as MotionOptions;
     const prevDragControls = (this.node.prevProps as MotionOptions | undefined)
       ?.dragControls as InternalDragControls | undefined;
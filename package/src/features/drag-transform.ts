@@ -0,0 +1,105 @@
+type Point = {
+  x: number;
+  y: number;
+};
+
+/**
+ * The linear part of a 2D transform, as in `matrix(a, b, c, d, e, f)`.
+ * Translation doesn't affect distances, so it's left out.
+ */
+export type LinearTransform = {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+};
+
+export const identityTransform: LinearTransform = { a: 1, b: 0, c: 0, d: 1 };
+
+/**
+ * Read a computed `transform`, which browsers always resolve to `none`,
+ * `matrix()` or `matrix3d()`.
+ */
+const parseTransform = (transform: string): LinearTransform => {
+  const match = /^matrix(3d)?\((.+)\)$/.exec(transform);
+  if (!match) return identityTransform;
+
+  const values = match[2]!.split(",").map(Number.parseFloat);
+  const [a, b, c, d] = match[1]
+    ? [values[0], values[1], values[4], values[5]]
+    : values;
+
+  return { a: a ?? 1, b: b ?? 0, c: c ?? 0, d: d ?? 1 };
+};
+
+export const multiplyTransforms = (
+  m: LinearTransform,
+  n: LinearTransform,
+): LinearTransform => ({
+  a: m.a * n.a + m.c * n.b,
+  b: m.b * n.a + m.d * n.b,
+  c: m.a * n.c + m.c * n.d,
+  d: m.b * n.c + m.d * n.d,
+});
+
+/**
+ * The combined transform of `element` and all of its ancestors, which maps
+ * distances inside `element` to distances on screen.
+ */
+export const getCumulativeTransform = (
+  element: Element | null,
+): LinearTransform => {
+  let transform = identityTransform;
+
+  for (let node = element; node; node = node.parentElement) {
+    transform = multiplyTransforms(
+      parseTransform(getComputedStyle(node).transform),
+      transform,
+    );
+  }
+
+  return transform;
+};
+
+/**
+ * The transform that maps the units `element` moves in to screen pixels.
+ * Inside an `<svg>` these are its parent's user units, so the parent's
+ * screen CTM is used, which includes `viewBox` scaling.
+ */
+export const getParentTransform = (element: Element): LinearTransform => {
+  const parent = element.parentElement;
+
+  if (element instanceof SVGElement && element.ownerSVGElement && parent) {
+    const matrix = (parent as unknown as SVGGraphicsElement).getScreenCTM?.();
+    if (matrix) {
+      return { a: matrix.a, b: matrix.b, c: matrix.c, d: matrix.d };
+    }
+  }
+
+  return getCumulativeTransform(parent);
+};
+
+export const invertTransform = ({
+  a,
+  b,
+  c,
+  d,
+}: LinearTransform): LinearTransform => {
+  const determinant = a * d - b * c;
+  if (!determinant) return identityTransform;
+
+  return {
+    a: d / determinant,
+    b: -b / determinant,
+    c: -c / determinant,
+    d: a / determinant,
+  };
+};
+
+export const applyTransform = (
+  { a, b, c, d }: LinearTransform,
+  { x, y }: Point,
+): Point => ({
+  x: a * x + c * y,
+  y: b * x + d * y,
+});
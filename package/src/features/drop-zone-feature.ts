@@ -0,0 +1,58 @@
+import { Feature, frame, type PanInfo } from "motion-dom";
+import type { MotionOptions } from "../types";
+import { registerDropZone, type DropZone } from "./drop-zones";
+import { animateWhileGesture, releaseWhileGesture } from "./while-gesture";
+
+export class DropZoneFeature extends Feature<Element> {
+  private unregister: VoidFunction = () => undefined;
+  private whileDragOverKeys: string[] = [];
+
+  private getProps() {
+    return this.node.getProps() as MotionOptions;
+  }
+
+  private onEnter = (info: PanInfo, data: unknown) => {
+    const props = this.getProps();
+
+    this.whileDragOverKeys = animateWhileGesture(
+      this.node,
+      props.whileDragOver,
+      props.custom,
+    );
+    frame.postRender(() => this.getProps().onDropZoneEnter?.(info, data));
+  };
+
+  private onLeave = (info: PanInfo, data: unknown) => {
+    this.release();
+    frame.postRender(() => this.getProps().onDropZoneLeave?.(info, data));
+  };
+
+  private onDrop = (info: PanInfo, data: unknown) => {
+    this.release();
+    frame.postRender(() => this.getProps().onDropZoneDrop?.(info, data));
+  };
+
+  private release() {
+    releaseWhileGesture(this.node, this.whileDragOverKeys);
+    this.whileDragOverKeys = [];
+  }
+
+  override mount() {
+    const current = this.node.current;
+    if (!current) return;
+
+    const zone: DropZone = {
+      element: current,
+      onEnter: this.onEnter,
+      onLeave: this.onLeave,
+      onDrop: this.onDrop,
+    };
+
+    this.unregister = registerDropZone(zone);
+  }
+
+  override unmount() {
+    this.unregister();
+    this.whileDragOverKeys = [];
+  }
+}
@@ -0,0 +1,98 @@
+import { frame, type PanInfo } from "motion-dom";
+
+type Point = {
+  x: number;
+  y: number;
+};
+
+type Rect = {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+};
+
+/**
+ * A `dropZone` element, as registered by the drop zone feature.
+ */
+export interface DropZone {
+  element: Element;
+  onEnter: (info: PanInfo, data: unknown) => void;
+  onLeave: (info: PanInfo, data: unknown) => void;
+  onDrop: (info: PanInfo, data: unknown) => void;
+}
+
+const zones = new Map<DropZone, Rect>();
+
+const measure = (zone: DropZone) => {
+  const { left, top, right, bottom } = zone.element.getBoundingClientRect();
+  zones.set(zone, { left, top, right, bottom });
+};
+
+const measureZones = () => zones.forEach((_, zone) => measure(zone));
+
+const contains = (rect: Rect, point: Point) =>
+  point.x >= rect.left &&
+  point.x <= rect.right &&
+  point.y >= rect.top &&
+  point.y <= rect.bottom;
+
+export const registerDropZone = (zone: DropZone) => {
+  measure(zone);
+
+  return () => {
+    zones.delete(zone);
+  };
+};
+
+/**
+ * Track which drop zone `dragged` is over for the length of a drag. Zones
+ * are measured when tracking starts and again whenever anything scrolls.
+ */
+export const trackDropZones = (dragged: Element, data: unknown) => {
+  let over: DropZone | null = null;
+
+  const onScroll = () => frame.read(measureZones);
+
+  measureZones();
+  window.addEventListener("scroll", onScroll, { capture: true, passive: true });
+
+  /**
+   * The innermost zone under `point`, ignoring `dragged` and anything
+   * inside it.
+   */
+  const hitTest = (point: Point) => {
+    let hit: DropZone | null = null;
+
+    for (const [zone, rect] of zones) {
+      if (dragged.contains(zone.element) || !contains(rect, point)) continue;
+      if (!hit || hit.element.contains(zone.element)) hit = zone;
+    }
+
+    return hit;
+  };
+
+  return {
+    update(info: PanInfo) {
+      const hit = hitTest(info.point);
+      if (over && !zones.has(over)) over = null;
+      if (hit === over) return;
+
+      over?.onLeave(info, data);
+      over = hit;
+      over?.onEnter(info, data);
+    },
+    drop(info: PanInfo) {
+      this.update(info);
+      over?.onDrop(info, data);
+      over = null;
+    },
+    stop(info?: PanInfo) {
+      window.removeEventListener("scroll", onScroll, { capture: true });
+      if (over && info && zones.has(over)) over.onLeave(info, data);
+      over = null;
+    },
+  };
+};
+
+export type DropZoneTracker = ReturnType<typeof trackDropZones>;
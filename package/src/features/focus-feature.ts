@@ -1,4 +1,5 @@
 import { Feature, addDomEvent } from "motion-dom";
+import { updateGestureState } from "../gestures/create-gesture-state";
 
 export class FocusFeature extends Feature<Element> {
   private isActive = false;
@@ -12,16 +13,18 @@ export class FocusFeature extends Feature<Element> {
       isFocusVisible = true;
     }
 
-    if (!isFocusVisible || !this.node.animationState) return;
+    if (!isFocusVisible) return;
 
-    this.node.animationState.setActive("whileFocus", true);
+    this.node.animationState?.setActive("whileFocus", true);
+    updateGestureState(this.node, "whileFocus", true);
     this.isActive = true;
   }
 
   private onBlur() {
-    if (!this.isActive || !this.node.animationState) return;
+    if (!this.isActive) return;
 
-    this.node.animationState.setActive("whileFocus", false);
+    this.node.animationState?.setActive("whileFocus", false);
+    updateGestureState(this.node, "whileFocus", false);
     this.isActive = false;
   }
 
@@ -35,6 +38,11 @@ export class FocusFeature extends Feature<Element> {
     this.unmount = () => {
       removeFocus();
       removeBlur();
+
+      if (this.isActive) {
+        this.isActive = false;
+        updateGestureState(this.node, "whileFocus", false);
+      }
     };
   }
 
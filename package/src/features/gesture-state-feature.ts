@@ -0,0 +1,117 @@
+import { Feature, addDomEvent, isPrimaryPointer } from "motion-dom";
+import { isFeatureEnabled } from "../component/feature-definitions";
+import {
+  updateGestureState,
+  type GestureAnimationType,
+} from "../gestures/create-gesture-state";
+import { observeIntersection } from "../hooks/create-in-view";
+import type { MotionOptions } from "../types";
+
+/**
+ * Keep `gestureState` up to date for gestures whose own features aren't
+ * enabled, using plain listeners. Unlike the tap feature, this doesn't make
+ * the element focusable or pressable with the keyboard.
+ */
+export class GestureStateFeature extends Feature<Element> {
+  private removeListeners: VoidFunction = () => undefined;
+  private removeWindowListeners: VoidFunction = () => undefined;
+
+  private getProps() {
+    return this.node.getProps() as MotionOptions;
+  }
+
+  /**
+   * Update `type` unless `feature`, which updates it itself, is enabled.
+   */
+  private set(
+    feature: Parameters<typeof isFeatureEnabled>[0],
+    type: GestureAnimationType,
+    isActive: boolean,
+  ) {
+    if (isFeatureEnabled(feature)(this.getProps())) return;
+    updateGestureState(this.node, type, isActive);
+  }
+
+  private onPointerEnter = (event: PointerEvent) => {
+    if (event.pointerType !== "touch") this.set("hover", "whileHover", true);
+  };
+
+  private onPointerLeave = () => this.set("hover", "whileHover", false);
+
+  private onPointerDown = (event: PointerEvent) => {
+    if (!isPrimaryPointer(event)) return;
+
+    this.set("tap", "whileTap", true);
+    this.removeWindowListeners();
+
+    const onPointerUp = () => {
+      this.removeWindowListeners();
+      this.set("tap", "whileTap", false);
+    };
+    window.addEventListener("pointerup", onPointerUp);
+    window.addEventListener("pointercancel", onPointerUp);
+
+    this.removeWindowListeners = () => {
+      window.removeEventListener("pointerup", onPointerUp);
+      window.removeEventListener("pointercancel", onPointerUp);
+      this.removeWindowListeners = () => undefined;
+    };
+  };
+
+  private onFocus = () => {
+    let isFocusVisible = false;
+
+    try {
+      isFocusVisible = this.node.current?.matches(":focus-visible") ?? false;
+    } catch {
+      isFocusVisible = true;
+    }
+
+    if (isFocusVisible) this.set("focus", "whileFocus", true);
+  };
+
+  private onBlur = () => this.set("focus", "whileFocus", false);
+
+  override mount() {
+    const current = this.node.current;
+    if (!current) return;
+
+    const removers = [
+      addDomEvent(
+        current,
+        "pointerenter",
+        this.onPointerEnter as EventListener,
+      ),
+      addDomEvent(current, "pointerleave", this.onPointerLeave),
+      addDomEvent(current, "pointerdown", this.onPointerDown as EventListener),
+      addDomEvent(current, "focus", this.onFocus),
+      addDomEvent(current, "blur", this.onBlur),
+    ];
+
+    if (typeof IntersectionObserver !== "undefined") {
+      const { root, margin, amount = "some" } = this.getProps().viewport ?? {};
+
+      removers.push(
+        observeIntersection(
+          current,
+          root ?? undefined,
+          margin,
+          typeof amount === "number" ? amount : amount === "all" ? 1 : 0,
+          (entry) => this.set("inView", "whileInView", entry.isIntersecting),
+        ),
+      );
+    }
+
+    this.removeListeners = () => removers.forEach((remove) => remove());
+  }
+
+  override unmount() {
+    this.removeListeners();
+    this.removeWindowListeners();
+
+    this.set("hover", "whileHover", false);
+    this.set("tap", "whileTap", false);
+    this.set("focus", "whileFocus", false);
+    this.set("inView", "whileInView", false);
+  }
+}
@@ -1,4 +1,6 @@
-import { Feature, frame, hover, type VisualElement } from "motion-dom";
+import { Feature, delay, frame, hover, type VisualElement } from "motion-dom";
+import { updateGestureState } from "../gestures/create-gesture-state";
+import type { MotionOptions } from "../types";
 
 const createEventInfo = (event: PointerEvent) => ({
   point: { x: event.clientX, y: event.clientY },
@@ -14,6 +16,7 @@ const handleHoverEvent = (
   if (node.animationState && props.whileHover) {
     node.animationState.setActive("whileHover", lifecycle === "Start");
   }
+  updateGestureState(node, "whileHover", lifecycle === "Start");
 
   const eventName = `onHover${lifecycle}` as "onHoverStart" | "onHoverEnd";
   const callback = props[eventName];
@@ -23,15 +26,103 @@ const handleHoverEvent = (
 };
 
 export class HoverFeature extends Feature<Element> {
+  private removeHover: VoidFunction = () => undefined;
+  private cancelHoverDelay: VoidFunction = () => undefined;
+  private isHovered = false;
+  private latestEvent: PointerEvent | null = null;
+
+  private getProps() {
+    return this.node.getProps() as MotionOptions;
+  }
+
+  /**
+   * Start the hover once the pointer has rested for `hoverDelay.enter`. A
+   * pending `leave` is cancelled, so sweeping back in doesn't restart it.
+   */
+  private onPointerEnter(event: PointerEvent) {
+    const { hoverDelay, hoverCancelOnScroll } = this.getProps();
+
+    this.cancelHoverDelay();
+    this.latestEvent = event;
+
+    if (hoverCancelOnScroll) {
+      window.addEventListener("scroll", this.onScroll, {
+        capture: true,
+        passive: true,
+      });
+    }
+
+    if (this.isHovered) return;
+
+    this.schedule(() => this.setHovered(event, true), hoverDelay?.enter);
+  }
+
+  private onPointerLeave(event: PointerEvent) {
+    this.cancelHoverDelay();
+    this.latestEvent = event;
+    this.removeScrollListener();
+
+    if (!this.isHovered) return;
+
+    this.schedule(
+      () => this.setHovered(event, false),
+      this.getProps().hoverDelay?.leave,
+    );
+  }
+
+  private onScroll = () => {
+    this.cancelHoverDelay();
+    this.removeScrollListener();
+
+    if (this.isHovered && this.latestEvent) {
+      this.setHovered(this.latestEvent, false);
+    }
+  };
+
+  private schedule(callback: VoidFunction, ms = 0) {
+    if (ms > 0) {
+      this.cancelHoverDelay = delay(callback, ms);
+    } else {
+      callback();
+    }
+  }
+
+  private setHovered(event: PointerEvent, isHovered: boolean) {
+    this.cancelHoverDelay = () => undefined;
+    this.isHovered = isHovered;
+    handleHoverEvent(this.node, event, isHovered ? "Start" : "End");
+  }
+
+  private removeScrollListener() {
+    window.removeEventListener("scroll", this.onScroll, { capture: true });
+  }
+
   override mount() {
     const { current } = this.node;
     if (!current) return;
 
-    this.unmount = hover(current, (_element, startEvent) => {
-      handleHoverEvent(this.node, startEvent, "Start");
-      return (endEvent) => handleHoverEvent(this.node, endEvent, "End");
+    this.removeHover = hover(current, (_element, startEvent) => {
+      const { hoverPointerTypes } = this.getProps();
+      if (
+        hoverPointerTypes &&
+        !(hoverPointerTypes as string[]).includes(startEvent.pointerType)
+      ) {
+        return;
+      }
+
+      this.onPointerEnter(startEvent);
+      return (endEvent) => this.onPointerLeave(endEvent);
     });
   }
 
-  override unmount() {}
+  override unmount() {
+    this.removeHover();
+    this.cancelHoverDelay();
+    this.removeScrollListener();
+
+    if (this.isHovered) {
+      this.isHovered = false;
+      updateGestureState(this.node, "whileHover", false);
+    }
+  }
 }
@@ -1,4 +1,5 @@
 import { Feature } from "motion-dom";
+import { updateGestureState } from "../gestures/create-gesture-state";
 
 const thresholdNames = {
   some: 0,
@@ -56,6 +57,7 @@ export class InViewFeature extends Feature<Element> {
         if (this.node.animationState) {
           this.node.animationState.setActive("whileInView", isIntersecting);
         }
+        updateGestureState(this.node, "whileInView", isIntersecting);
 
         const { onViewportEnter, onViewportLeave } = this.node.getProps();
         const callback = isIntersecting ? onViewportEnter : onViewportLeave;
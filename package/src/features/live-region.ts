@@ -0,0 +1,33 @@
+let liveRegion: HTMLElement | null = null;
+
+const getLiveRegion = () => {
+  if (liveRegion?.isConnected) return liveRegion;
+
+  liveRegion = document.createElement("div");
+  liveRegion.setAttribute("role", "status");
+  liveRegion.setAttribute("aria-live", "polite");
+  liveRegion.setAttribute("aria-atomic", "true");
+  Object.assign(liveRegion.style, {
+    position: "absolute",
+    width: "1px",
+    height: "1px",
+    margin: "-1px",
+    padding: "0",
+    overflow: "hidden",
+    clip: "rect(0 0 0 0)",
+    whiteSpace: "nowrap",
+    border: "0",
+  });
+  document.body.appendChild(liveRegion);
+
+  return liveRegion;
+};
+
+/**
+ * Announce `message` to screen readers through a visually hidden live
+ * region shared by every motion component.
+ */
+export const announce = (message: string | undefined) => {
+  if (!message) return;
+  getLiveRegion().textContent = message;
+};
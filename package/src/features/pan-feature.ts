@@ -1,4 +1,6 @@
 import { Feature, frame, type PanInfo } from "motion-dom";
+import type { MotionOptions, SwipeInfo } from "../types";
+import { swipedElements } from "./swipe-state";
 
 type PanEventHandler = (event: PointerEvent, info: PanInfo) => void;
 
@@ -26,6 +28,50 @@ const createPanInfo = (
   velocity,
 });
 
+const defaultSwipeThreshold = 50;
+const defaultSwipeVelocity = 200;
+
+/**
+ * Velocity from a move older than this is ignored when checking for a
+ * swipe, so a pan that stops before the pointer lifts isn't a swipe.
+ */
+const maxSwipeVelocityAge = 100;
+
+const getSwipeInfo = (
+  props: MotionOptions,
+  offset: { x: number; y: number },
+  velocity: { x: number; y: number },
+): SwipeInfo | undefined => {
+  const {
+    swipe = true,
+    swipeThreshold = defaultSwipeThreshold,
+    swipeVelocity = defaultSwipeVelocity,
+  } = props;
+  if (!swipe) return;
+
+  const axis =
+    swipe === "x" || swipe === "y"
+      ? swipe
+      : Math.abs(offset.x) >= Math.abs(offset.y)
+        ? "x"
+        : "y";
+  const distance = offset[axis];
+
+  if (Math.abs(distance) < swipeThreshold) return;
+  if (velocity[axis] * Math.sign(distance) < swipeVelocity) return;
+
+  const direction =
+    axis === "x"
+      ? distance > 0
+        ? "right"
+        : "left"
+      : distance > 0
+        ? "down"
+        : "up";
+
+  return { direction, velocity, offset };
+};
+
 const isPrimaryPointer = (event: PointerEvent) =>
   event.pointerType === "mouse"
     ? typeof event.button !== "number" || event.button <= 0
@@ -92,15 +138,37 @@ export class PanFeature extends Feature<Element> {
 
     if (this.isPanning) {
       frame.postRender(() => this.node.getProps().onPanEnd?.(event, info));
+      this.checkSwipe(event, info);
     }
 
     this.sessionStarted = false;
     this.isPanning = false;
   };
 
+  private checkSwipe(event: PointerEvent, { offset, velocity }: PanInfo) {
+    const props = this.node.getProps() as MotionOptions;
+    const current = this.node.current;
+    if (!props.onSwipe || !current) return;
+
+    const isStale = performance.now() - this.lastTime > maxSwipeVelocityAge;
+    const swipe = getSwipeInfo(
+      props,
+      offset,
+      isStale ? { x: 0, y: 0 } : velocity,
+    );
+    if (!swipe) return;
+
+    swipedElements.add(current);
+    frame.postRender(() =>
+      (this.node.getProps() as MotionOptions).onSwipe?.(event, swipe),
+    );
+  }
+
   private onPointerDown = (event: PointerEvent) => {
     if (!isPrimaryPointer(event)) return;
 
+    if (this.node.current) swipedElements.delete(this.node.current);
+
     const point = createPoint(event);
     this.sessionStarted = true;
     this.isPanning = false;
@@ -0,0 +1,235 @@
+import {
+  Feature,
+  addValueToWillChange,
+  frame,
+  type MotionValue,
+} from "motion-dom";
+import { clamp } from "motion-utils";
+import type { MotionOptions, PinchInfo } from "../types";
+import { animateWhileGesture, releaseWhileGesture } from "./while-gesture";
+
+type Point = {
+  x: number;
+  y: number;
+};
+
+type PinchEventHandler = (event: PointerEvent, info: PinchInfo) => void;
+
+const asyncHandler =
+  (handler?: PinchEventHandler) => (event: PointerEvent, info: PinchInfo) => {
+    if (handler) {
+      frame.update(() => handler(event, info), false, true);
+    }
+  };
+
+const createPoint = (event: PointerEvent): Point => ({
+  x: event.clientX,
+  y: event.clientY,
+});
+
+const getDistance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const getAngle = (a: Point, b: Point) =>
+  (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+
+const getMidpoint = (a: Point, b: Point): Point => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+});
+
+/**
+ * Wrap an angle change into (-180, 180] so crossing the `atan2` seam
+ * doesn't read as a full turn.
+ */
+const wrapAngleDelta = (delta: number) => {
+  if (delta > 180) return delta - 360;
+  if (delta <= -180) return delta + 360;
+  return delta;
+};
+
+const toNumber = (value: unknown, fallback: number) => {
+  if (typeof value === "number") return value;
+  const parsed = Number.parseFloat(String(value));
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+export class PinchFeature extends Feature<Element> {
+  private removePointerDownListener: VoidFunction = () => undefined;
+  private removeWindowListeners: VoidFunction = () => undefined;
+  private pointers = new Map<number, Point>();
+  private isPinching = false;
+  private startDistance = 1;
+  private lastAngle = 0;
+  private lastTime = 0;
+  private originValues = { scale: 1, rotate: 0 };
+  private info: PinchInfo = {
+    scale: 1,
+    rotation: 0,
+    origin: { x: 0, y: 0 },
+    velocity: { scale: 0, rotation: 0 },
+  };
+  private whilePinchKeys: string[] = [];
+
+  private onPointerDown = (event: PointerEvent) => {
+    if (this.pointers.size >= 2) return;
+
+    this.pointers.set(event.pointerId, createPoint(event));
+
+    if (this.pointers.size === 2) this.start(event);
+  };
+
+  private onPointerMove = (event: PointerEvent) => {
+    if (!this.pointers.has(event.pointerId)) return;
+
+    this.pointers.set(event.pointerId, createPoint(event));
+
+    if (this.isPinching) this.move(event);
+  };
+
+  private onPointerEnd = (event: PointerEvent) => {
+    if (!this.pointers.has(event.pointerId)) return;
+
+    if (this.isPinching) this.end(event);
+
+    this.pointers.delete(event.pointerId);
+  };
+
+  private start(event: PointerEvent) {
+    const [a, b] = this.getPointers();
+    const props = this.getProps();
+
+    this.isPinching = true;
+    this.startDistance = getDistance(a, b) || 1;
+    this.lastAngle = getAngle(a, b);
+    this.lastTime = performance.now();
+    this.info = {
+      scale: 1,
+      rotation: 0,
+      origin: getMidpoint(a, b),
+      velocity: { scale: 0, rotation: 0 },
+    };
+
+    if (props.pinch) {
+      this.originValues = {
+        scale: toNumber(this.getMotionValue("scale", 1).get(), 1),
+        rotate: toNumber(this.getMotionValue("rotate", 0).get(), 0),
+      };
+      addValueToWillChange(this.node, "transform");
+    }
+
+    this.whilePinchKeys = animateWhileGesture(
+      this.node,
+      props.whilePinch,
+      props.custom,
+    );
+    asyncHandler(props.onPinchStart)(event, this.info);
+  }
+
+  private move(event: PointerEvent) {
+    const [a, b] = this.getPointers();
+    const now = performance.now();
+    const angle = getAngle(a, b);
+    const scale = getDistance(a, b) / this.startDistance;
+    const rotation =
+      this.info.rotation + wrapAngleDelta(angle - this.lastAngle);
+    const dt = now - this.lastTime;
+
+    const velocity =
+      dt > 0
+        ? {
+            scale: ((scale - this.info.scale) / dt) * 1000,
+            rotation: ((rotation - this.info.rotation) / dt) * 1000,
+          }
+        : this.info.velocity;
+
+    this.info = { scale, rotation, origin: getMidpoint(a, b), velocity };
+    this.lastAngle = angle;
+    this.lastTime = now;
+
+    this.updateValues();
+    asyncHandler(this.getProps().onPinch)(event, this.info);
+  }
+
+  private end(event: PointerEvent) {
+    const info = this.info;
+
+    this.isPinching = false;
+    releaseWhileGesture(this.node, this.whilePinchKeys);
+    this.whilePinchKeys = [];
+    frame.postRender(() => this.getProps().onPinchEnd?.(event, info));
+  }
+
+  private updateValues() {
+    const { pinch, pinchConstraints = {} } = this.getProps();
+    if (!pinch) return;
+
+    if (pinch !== "rotate") {
+      this.getMotionValue("scale", 1).set(
+        clamp(
+          pinchConstraints.minScale ?? 0,
+          pinchConstraints.maxScale ?? Infinity,
+          this.originValues.scale * this.info.scale,
+        ),
+      );
+    }
+
+    if (pinch !== "scale") {
+      this.getMotionValue("rotate", 0).set(
+        clamp(
+          pinchConstraints.minRotate ?? -Infinity,
+          pinchConstraints.maxRotate ?? Infinity,
+          this.originValues.rotate + this.info.rotation,
+        ),
+      );
+    }
+  }
+
+  private getPointers(): [Point, Point] {
+    const [a, b] = Array.from(this.pointers.values());
+    return [a!, b!];
+  }
+
+  private getMotionValue(
+    key: "scale" | "rotate",
+    defaultValue: number,
+  ): MotionValue<number | string> {
+    return this.node.getValue(key, defaultValue) as MotionValue<
+      number | string
+    >;
+  }
+
+  private getProps() {
+    return this.node.getProps() as MotionOptions;
+  }
+
+  override mount() {
+    const current = this.node.current;
+    if (!current) return;
+
+    current.addEventListener(
+      "pointerdown",
+      this.onPointerDown as EventListener,
+    );
+    window.addEventListener("pointermove", this.onPointerMove);
+    window.addEventListener("pointerup", this.onPointerEnd);
+    window.addEventListener("pointercancel", this.onPointerEnd);
+
+    this.removePointerDownListener = () =>
+      current.removeEventListener(
+        "pointerdown",
+        this.onPointerDown as EventListener,
+      );
+    this.removeWindowListeners = () => {
+      window.removeEventListener("pointermove", this.onPointerMove);
+      window.removeEventListener("pointerup", this.onPointerEnd);
+      window.removeEventListener("pointercancel", this.onPointerEnd);
+    };
+  }
+
+  override unmount() {
+    this.removePointerDownListener();
+    this.removeWindowListeners();
+    this.pointers.clear();
+    this.isPinching = false;
+  }
+}
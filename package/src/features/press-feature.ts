@@ -1,4 +1,11 @@
-import { Feature, frame, press, type VisualElement } from "motion-dom";
+import { Feature, delay, frame, press, type VisualElement } from "motion-dom";
+import { updateGestureState } from "../gestures/create-gesture-state";
+import type { MotionOptions } from "../types";
+import { swipedElements } from "./swipe-state";
+import { animateWhileGesture, releaseWhileGesture } from "./while-gesture";
+
+const defaultLongPressDelay = 500;
+const defaultLongPressTolerance = 10;
 
 const createTapInfo = (event: PointerEvent) => ({
   point: { x: event.clientX, y: event.clientY },
@@ -12,6 +19,7 @@ const handlePressEvent = (
   node: VisualElement<Element>,
   event: PointerEvent,
   lifecycle: "Start" | "End" | "Cancel",
+  isLongPress = false,
 ) => {
   const { props } = node;
 
@@ -22,39 +30,238 @@ const handlePressEvent = (
   if (node.animationState && props.whileTap) {
     node.animationState.setActive("whileTap", lifecycle === "Start");
   }
+  updateGestureState(node, "whileTap", lifecycle === "Start");
 
-  const eventName = `onTap${lifecycle === "End" ? "" : lifecycle}` as
-    | "onTapStart"
-    | "onTap"
-    | "onTapCancel";
-  const callback = props[eventName];
+  frame.postRender(() => {
+    // A press that ended in a long press or a swipe is cancelled rather
+    // than a tap. Pan records swipes on the same pointerup, so read it
+    // once that's done.
+    const isCancelled =
+      lifecycle === "End" &&
+      (isLongPress ||
+        (node.current !== null && swipedElements.has(node.current)));
+    const resolved = isCancelled ? "Cancel" : lifecycle;
+    const eventName = `onTap${resolved === "End" ? "" : resolved}` as
+      | "onTapStart"
+      | "onTap"
+      | "onTapCancel";
 
-  if (callback) {
-    frame.postRender(() => callback(event, createTapInfo(event)));
-  }
+    props[eventName]?.(event, createTapInfo(event));
+  });
 };
 
+/**
+ * Whether `element` already does something with Space, like typing a space
+ * or activating a button or checkbox, which pressing it mustn't replace.
+ */
+const hasNativeSpaceBehaviour = (element: Element) =>
+  element instanceof HTMLInputElement ||
+  element instanceof HTMLTextAreaElement ||
+  element instanceof HTMLSelectElement ||
+  element instanceof HTMLButtonElement ||
+  (element instanceof HTMLElement && element.isContentEditable);
+
+const firePointerEvent = (target: Element, type: "down" | "up" | "cancel") =>
+  target.dispatchEvent(
+    new PointerEvent(`pointer${type}`, { isPrimary: true, bubbles: true }),
+  );
+
 export class PressFeature extends Feature<Element> {
+  private removePress: VoidFunction = () => undefined;
+  private removeKeyboardListeners: VoidFunction = () => undefined;
+  private cancelLongPressTimer: VoidFunction = () => undefined;
+  private longPressPointerId: number | null = null;
+  private longPressOrigin = { x: 0, y: 0 };
+  private isLongPress = false;
+  private isPressed = false;
+  private isSpacePressed = false;
+  private whileLongPressKeys: string[] = [];
+
+  private getProps() {
+    return this.node.getProps() as MotionOptions;
+  }
+
+  private startLongPress(event: PointerEvent) {
+    const {
+      whileLongPress,
+      onLongPressStart,
+      onLongPress,
+      longPressDelay = defaultLongPressDelay,
+    } = this.getProps();
+    if (!whileLongPress && !onLongPressStart && !onLongPress) return;
+
+    if (
+      this.node.current instanceof HTMLButtonElement &&
+      this.node.current.disabled
+    ) {
+      return;
+    }
+
+    this.isLongPress = false;
+    this.longPressPointerId = event.pointerId;
+    this.longPressOrigin = { x: event.clientX, y: event.clientY };
+    this.cancelLongPressTimer = delay(
+      () => this.recognizeLongPress(event),
+      longPressDelay,
+    );
+    window.addEventListener("pointermove", this.onPointerMove);
+  }
+
+  private recognizeLongPress(event: PointerEvent) {
+    const props = this.getProps();
+
+    this.isLongPress = true;
+    this.stopTrackingMovement();
+    this.whileLongPressKeys = animateWhileGesture(
+      this.node,
+      props.whileLongPress,
+      props.custom,
+    );
+    frame.postRender(() =>
+      this.getProps().onLongPressStart?.(event, createTapInfo(event)),
+    );
+  }
+
+  /**
+   * End any long press in progress and return whether one was recognised.
+   */
+  private endLongPress(event: PointerEvent, success: boolean) {
+    const wasLongPress = this.isLongPress;
+
+    this.cancelLongPress();
+
+    if (wasLongPress) {
+      releaseWhileGesture(this.node, this.whileLongPressKeys);
+      this.whileLongPressKeys = [];
+
+      if (success) {
+        frame.postRender(() =>
+          this.getProps().onLongPress?.(event, createTapInfo(event)),
+        );
+      }
+    }
+
+    return wasLongPress;
+  }
+
+  private cancelLongPress() {
+    this.cancelLongPressTimer();
+    this.cancelLongPressTimer = () => undefined;
+    this.stopTrackingMovement();
+    this.isLongPress = false;
+  }
+
+  private stopTrackingMovement() {
+    window.removeEventListener("pointermove", this.onPointerMove);
+    this.longPressPointerId = null;
+  }
+
+  private onPointerMove = (event: PointerEvent) => {
+    if (event.pointerId !== this.longPressPointerId) return;
+
+    const { longPressTolerance = defaultLongPressTolerance } = this.getProps();
+    const distance = Math.hypot(
+      event.clientX - this.longPressOrigin.x,
+      event.clientY - this.longPressOrigin.y,
+    );
+
+    if (distance > longPressTolerance) this.cancelLongPress();
+  };
+
+  /**
+   * Whether Space should press the element. motion-dom's press only
+   * responds to Enter, so Space is mirrored for long presses, on elements
+   * that don't have a Space behaviour of their own. Like Enter, it only
+   * counts while the element itself is focused, not a child input.
+   */
+  private isSpaceKey(event: KeyboardEvent) {
+    const { whileLongPress, onLongPressStart, onLongPress } = this.getProps();
+
+    return (
+      event.key === " " &&
+      event.target === event.currentTarget &&
+      Boolean(whileLongPress || onLongPressStart || onLongPress) &&
+      !hasNativeSpaceBehaviour(event.currentTarget as Element)
+    );
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (!this.isSpaceKey(event)) return;
+
+    // Stop the page scrolling while Space is held.
+    event.preventDefault();
+    if (this.isSpacePressed) return;
+
+    this.isSpacePressed = true;
+    firePointerEvent(event.currentTarget as Element, "down");
+  };
+
+  private onKeyUp = (event: KeyboardEvent) => {
+    if (event.key !== " " || event.target !== event.currentTarget) return;
+    if (!this.isSpacePressed) return;
+
+    event.preventDefault();
+    this.isSpacePressed = false;
+    firePointerEvent(event.currentTarget as Element, "up");
+  };
+
+  private onBlur = (event: FocusEvent) => {
+    if (!this.isSpacePressed) return;
+
+    this.isSpacePressed = false;
+    firePointerEvent(event.currentTarget as Element, "cancel");
+  };
+
   override mount() {
     const current = this.node.current;
     if (!current) return;
 
     const propagate = this.node.props.propagate as TapPropagation | undefined;
 
-    this.unmount = press(
+    this.removePress = press(
       current,
       (_element, startEvent) => {
         handlePressEvent(this.node, startEvent, "Start");
+        this.isPressed = true;
+        this.startLongPress(startEvent);
 
-        return (endEvent, { success }) =>
-          handlePressEvent(this.node, endEvent, success ? "End" : "Cancel");
+        return (endEvent, { success }) => {
+          const isLongPress = this.endLongPress(endEvent, success);
+
+          this.isPressed = false;
+          handlePressEvent(
+            this.node,
+            endEvent,
+            success ? "End" : "Cancel",
+            isLongPress,
+          );
+        };
       },
       {
         useGlobalTarget: this.node.props.globalTapTarget,
         stopPropagation: propagate?.tap === false,
       },
     );
+
+    current.addEventListener("keydown", this.onKeyDown as EventListener);
+    current.addEventListener("keyup", this.onKeyUp as EventListener);
+    current.addEventListener("blur", this.onBlur as EventListener);
+
+    this.removeKeyboardListeners = () => {
+      current.removeEventListener("keydown", this.onKeyDown as EventListener);
+      current.removeEventListener("keyup", this.onKeyUp as EventListener);
+      current.removeEventListener("blur", this.onBlur as EventListener);
+    };
   }
 
-  override unmount() {}
+  override unmount() {
+    this.removePress();
+    this.removeKeyboardListeners();
+    this.cancelLongPress();
+
+    if (this.isPressed) {
+      this.isPressed = false;
+      updateGestureState(this.node, "whileTap", false);
+    }
+  }
 }
@@ -0,0 +1,5 @@
+/**
+ * Elements whose last pan ended in a swipe. The press feature reads this
+ * so a swipe doesn't also count as a tap.
+ */
+export const swipedElements = new WeakSet<Element>();
@@ -0,0 +1,71 @@
+import {
+  animateVisualElement,
+  resolveVariant,
+  variantPriorityOrder,
+  type AnimationDefinition,
+  type VisualElement,
+} from "motion-dom";
+
+/**
+ * The value `key` returns to once a gesture is released: the target of
+ * the highest priority active animation type, or the base value.
+ */
+const getRestingValue = (node: VisualElement<Element>, key: string) => {
+  const state = node.animationState?.getState();
+
+  if (state) {
+    for (let i = variantPriorityOrder.length - 1; i >= 0; i--) {
+      const typeState = state[variantPriorityOrder[i]!];
+      if (typeState?.isActive && key in typeState.prevResolvedValues) {
+        return typeState.prevResolvedValues[key];
+      }
+    }
+  }
+
+  return node.getBaseTarget(key) ?? null;
+};
+
+/**
+ * Gesture props like `whilePinch` aren't animation types motion-dom's
+ * animation state knows about, so their targets are animated directly.
+ * Returns the keys that were animated, to pass to `releaseWhileGesture`.
+ */
+export const animateWhileGesture = (
+  node: VisualElement<Element>,
+  definition: unknown,
+  custom?: unknown,
+): string[] => {
+  if (!definition) return [];
+
+  const target = resolveVariant(
+    node,
+    definition as AnimationDefinition,
+    custom,
+  );
+  if (!target) return [];
+
+  void animateVisualElement(node, definition as AnimationDefinition, {
+    custom,
+  });
+
+  return Object.keys({ ...target, ...target.transitionEnd }).filter(
+    (key) => key !== "transition" && key !== "transitionEnd",
+  );
+};
+
+/**
+ * Animate `keys` back to whatever would apply without the gesture.
+ */
+export const releaseWhileGesture = (
+  node: VisualElement<Element>,
+  keys: string[],
+) => {
+  if (!keys.length) return;
+
+  const fallback: Record<string, unknown> = {};
+  for (const key of keys) {
+    fallback[key] = getRestingValue(node, key);
+  }
+
+  void animateVisualElement(node, fallback as AnimationDefinition);
+};
@@ -0,0 +1,76 @@
+import { createSignal, type Accessor, type Setter } from "solid-js";
+import type { VisualElement } from "motion-dom";
+import type { MotionOptions } from "../types";
+
+export type GestureAnimationType =
+  | "whileHover"
+  | "whileTap"
+  | "whileFocus"
+  | "whileDrag"
+  | "whileInView";
+
+export interface GestureState {
+  isHovered: Accessor<boolean>;
+  isPressed: Accessor<boolean>;
+  /**
+   * Whether the element has visible focus, the same as `whileFocus`.
+   */
+  isFocused: Accessor<boolean>;
+  isDragging: Accessor<boolean>;
+  isInView: Accessor<boolean>;
+}
+
+type GestureStateInternal = GestureState & {
+  set: (type: GestureAnimationType, isActive: boolean) => void;
+};
+
+/**
+ * Create accessors for the gestures active on a motion component. Pass the
+ * result to the component's `gestureState` prop.
+ *
+ * @example
+ * ```tsx
+ * const gestures = createGestureState();
+ *
+ * <motion.button gestureState={gestures} whileHover={{ scale: 1.05 }}>
+ *   <Show when={gestures.isHovered()} fallback={<Icon />}>
+ *     <ActiveIcon />
+ *   </Show>
+ * </motion.button>;
+ * ```
+ */
+export const createGestureState = (): GestureState => {
+  const setters = {} as Record<GestureAnimationType, Setter<boolean>>;
+  const accessor = (type: GestureAnimationType) => {
+    const [isActive, setIsActive] = createSignal(false);
+    setters[type] = setIsActive;
+    return isActive;
+  };
+
+  const state: GestureStateInternal = {
+    isHovered: accessor("whileHover"),
+    isPressed: accessor("whileTap"),
+    isFocused: accessor("whileFocus"),
+    isDragging: accessor("whileDrag"),
+    isInView: accessor("whileInView"),
+    set(type, isActive) {
+      setters[type](isActive);
+    },
+  };
+
+  return state;
+};
+
+/**
+ * Update the `gestureState` passed to `node`, if any. Features call this
+ * alongside `animationState.setActive`.
+ */
+export const updateGestureState = (
+  node: VisualElement<Element>,
+  type: GestureAnimationType,
+  isActive: boolean,
+) => {
+  const { gestureState } = node.getProps() as MotionOptions;
+
+  (gestureState as GestureStateInternal | undefined)?.set(type, isActive);
+};
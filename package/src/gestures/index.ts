@@ -3,3 +3,4 @@ export {
   type DragControlOptions,
   type DragControls,
 } from "./use-drag";
+export { createGestureState, type GestureState } from "./create-gesture-state";
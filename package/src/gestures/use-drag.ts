@@ -1,13 +1,19 @@
+import type { DragActivationConstraints } from "../types";
+
 export interface DragControlOptions {
   /**
    * Whether to center the dragged element on the pointer immediately.
    */
   snapToCursor?: boolean;
   /**
-   * Reserved for Motion parity. The current VisualElement drag feature starts
-   * dragging immediately on pointer down.
+   * Pixels the pointer has to move before the drag starts. Shorthand for
+   * `activationConstraint.distance`.
    */
   distanceThreshold?: number;
+  /**
+   * Overrides the component's `dragActivationConstraint` for this drag.
+   */
+  activationConstraint?: DragActivationConstraints;
 }
 
 type DragControlSubscriber = {
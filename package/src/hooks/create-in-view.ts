@@ -0,0 +1,191 @@
+import { createEffect, createSignal, onCleanup, type Accessor } from "solid-js";
+
+type MaybeAccessor<T> = T | Accessor<T>;
+
+export interface InViewOptions {
+  /**
+   * The element the target is intersected with. Defaults to the viewport.
+   */
+  root?: MaybeAccessor<Element | Document | null | undefined>;
+  /**
+   * Grows or shrinks `root` before intersecting, as a CSS margin.
+   */
+  margin?: string;
+  /**
+   * How much of the element must be visible: `"some"`, `"all"` or a ratio
+   * between `0` and `1`.
+   *
+   * @default "some"
+   */
+  amount?: "some" | "all" | number;
+  /**
+   * Stop observing once the element has entered the view.
+   */
+  once?: boolean;
+}
+
+type IntersectionCallback = (entry: IntersectionObserverEntry) => void;
+
+interface SharedObserver {
+  observer: IntersectionObserver;
+  callbacks: Map<Element, Set<IntersectionCallback>>;
+  /**
+   * The latest entry of each element, for callbacks added after it arrived.
+   */
+  entries: Map<Element, IntersectionObserverEntry>;
+}
+
+const thresholds = {
+  some: 0,
+  all: 1,
+} as const;
+
+const viewportObservers = new Map<string, SharedObserver>();
+const rootObservers = new WeakMap<
+  Element | Document,
+  Map<string, SharedObserver>
+>();
+
+const getObservers = (root: Element | Document | undefined) => {
+  if (!root) return viewportObservers;
+
+  let observers = rootObservers.get(root);
+  if (!observers) {
+    observers = new Map();
+    rootObservers.set(root, observers);
+  }
+  return observers;
+};
+
+/**
+ * Call `callback` with every intersection change of `element`. Elements
+ * observed with the same root, margin and threshold share one
+ * `IntersectionObserver`. If `element` is already observed, `callback` is
+ * called straight away with its latest entry.
+ */
+export const observeIntersection = (
+  element: Element,
+  root: Element | Document | undefined,
+  rootMargin: string | undefined,
+  threshold: number,
+  callback: IntersectionCallback,
+): VoidFunction => {
+  const observers = getObservers(root);
+  const key = `${rootMargin ?? ""}|${threshold}`;
+
+  let shared = observers.get(key);
+  if (!shared) {
+    const callbacks = new Map<Element, Set<IntersectionCallback>>();
+    const entries = new Map<Element, IntersectionObserverEntry>();
+    const observer = new IntersectionObserver(
+      (changes) => {
+        for (const entry of changes) {
+          if (!callbacks.has(entry.target)) continue;
+
+          entries.set(entry.target, entry);
+          callbacks.get(entry.target)?.forEach((notify) => notify(entry));
+        }
+      },
+      { root, rootMargin, threshold },
+    );
+    shared = { observer, callbacks, entries };
+    observers.set(key, shared);
+  }
+
+  const { observer, callbacks, entries } = shared;
+  let elementCallbacks = callbacks.get(element);
+  if (!elementCallbacks) {
+    elementCallbacks = new Set();
+    callbacks.set(element, elementCallbacks);
+    observer.observe(element);
+  }
+  elementCallbacks.add(callback);
+
+  let isObserving = true;
+
+  const stop = () => {
+    if (!isObserving) return;
+    isObserving = false;
+
+    elementCallbacks.delete(callback);
+    if (elementCallbacks.size) return;
+
+    callbacks.delete(element);
+    entries.delete(element);
+    observer.unobserve(element);
+
+    if (!callbacks.size) {
+      observer.disconnect();
+      observers.delete(key);
+    }
+  };
+
+  const entry = entries.get(element);
+  if (entry) callback(entry);
+
+  return stop;
+};
+
+const resolve = <T>(value: MaybeAccessor<T>): T =>
+  typeof value === "function" ? (value as Accessor<T>)() : value;
+
+/**
+ * Track whether an element is in view.
+ *
+ * `element` and `options.root` can be accessors, so refs assigned after
+ * render are picked up. Elements observed with the same options share one
+ * `IntersectionObserver`, and observation stops when the current owner is
+ * disposed. Before the element is observed, and on the server, the accessor
+ * returns `false`.
+ *
+ * @example
+ * ```tsx
+ * let video!: HTMLVideoElement;
+ * const isInView = createInView(() => video, { amount: 0.5 });
+ *
+ * createEffect(() => (isInView() ? video.play() : video.pause()));
+ *
+ * return <video ref={video} src="/intro.mp4" muted />;
+ * ```
+ */
+export const createInView = (
+  element: MaybeAccessor<Element | null | undefined>,
+  options: InViewOptions = {},
+): Accessor<boolean> => {
+  const [isInView, setIsInView] = createSignal(false);
+
+  if (typeof IntersectionObserver === "undefined") return isInView;
+
+  const { margin, amount = "some", once } = options;
+  const threshold = typeof amount === "number" ? amount : thresholds[amount];
+  let hasEnteredView = false;
+
+  createEffect(() => {
+    const target = resolve(element);
+    const root = resolve(options.root) ?? undefined;
+    if (!target || (once && hasEnteredView)) return;
+
+    // The callback can run before `observeIntersection` returns, with the
+    // element's latest entry, so `stop` is assigned once it has.
+    let stop: VoidFunction = () => undefined;
+    stop = observeIntersection(
+      target,
+      root,
+      margin,
+      threshold,
+      ({ isIntersecting }) => {
+        setIsInView(isIntersecting);
+
+        if (isIntersecting && once) {
+          hasEnteredView = true;
+          stop();
+        }
+      },
+    );
+
+    if (once && hasEnteredView) stop();
+    onCleanup(stop);
+  });
+
+  return isInView;
+};
@@ -1 +1,2 @@
 export { useReducedMotion } from "./use-reduced-motion";
+export { createInView, type InViewOptions } from "./create-in-view";
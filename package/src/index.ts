@@ -24,8 +24,40 @@ export {
   type PresenceContextValue,
   motion,
   type MotionProxy,
+  m,
+  LazyMotion,
+  type FeatureBundle,
+  type LazyFeatureBundle,
+  type LazyMotionProps,
+  Reorder,
+  type ReorderGroupProps,
+  type ReorderItemProps,
 } from "./component/index";
 
+export { domAnimation } from "./features/dom-animation";
+export { domMax } from "./features/dom-max";
+
+export {
+  animate,
+  type AnimateFunction,
+  type AnimateTransition,
+  type AnimateValueKeyframes,
+} from "./animation/animate";
+
+export { createAnimate, type AnimationScope } from "./animation/create-animate";
+
+export { createAnimationControls } from "./animation/animation-controls";
+
+export {
+  createTimeline,
+  TimelineAnimation,
+  type TimelineAt,
+  type TimelineLabel,
+  type TimelineOptions,
+  type TimelineSegment,
+  type TimelineSegmentOptions,
+} from "./animation/timeline";
+
 export {
   stagger,
   isStaggerFunction,
@@ -46,14 +78,61 @@ export type {
   MotionOptions,
   StyleTransformShortcuts,
   MotionStyle,
+  MotionStyleValue,
+  DragActivationConstraint,
+  DragActivationConstraints,
+  DragAutoScrollOptions,
+  DragGestureEvent,
+  DragSnapPoint,
+  DragSnapPoints,
+  DragKeyboardAnnouncements,
+  DragKeyboardOptions,
+  HoverDelay,
+  PinchConstraints,
+  PinchInfo,
+  SwipeDirection,
+  SwipeInfo,
   Variant,
   Variants,
+  LegacyAnimationControls,
+  ScrollEdge,
+  ScrollElementSource,
+  ScrollIntersection,
+  ScrollOffset,
+  ScrollTimelineOptions,
 } from "./types";
 
 export { isSVGElement, isHTMLElement } from "./types";
 
-export { createDragControls, type DragControls } from "./gestures";
+export {
+  createDragControls,
+  createGestureState,
+  type DragControlOptions,
+  type DragControls,
+  type GestureState,
+} from "./gestures";
+
+export {
+  accessorFromMotionValue,
+  createMotionValue,
+  createScroll,
+  createSpring,
+  createTransform,
+  motionValueFromAccessor,
+  type AccessorFromMotionValueOptions,
+  type CreateScrollOptions,
+  type ScrollMotionValues,
+  type SpringSource,
+} from "./values";
+
+export {
+  isMotionValue,
+  type AnimationPlaybackControlsWithThen,
+  type ElementOrSelector,
+  type MotionValue,
+  type TransformOptions,
+} from "motion-dom";
 
-export { useReducedMotion } from "./hooks";
+export { createInView, useReducedMotion, type InViewOptions } from "./hooks";
 
 export type { Transition } from "./types";
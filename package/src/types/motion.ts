@@ -1,13 +1,16 @@
-import type { JSX } from "solid-js";
+import type { Accessor, JSX } from "solid-js";
 import type {
   AnyResolvedKeyframe,
   MotionValue,
   MotionNodeOptions,
+  PanInfo,
+  TapInfo,
   ValueAnimationTransition,
   ValueTransition,
   VariantLabels,
 } from "motion-dom";
 import type { BoundingBox, Box } from "motion-utils";
+import type { GestureState } from "../gestures/create-gesture-state";
 import type { ElementTag, SVGElements } from "./elements";
 
 /**
@@ -36,11 +39,24 @@ export interface StyleTransformShortcuts {
   "transform-perspective"?: string | number;
 }
 
+/**
+ * A `MotionValue` that can drive a single style value.
+ */
+export type MotionStyleValue = MotionValue<number> | MotionValue<string>;
+
+type WithMotionStyleValues<T> = {
+  [K in keyof T]?: T[K] | MotionStyleValue;
+};
+
 /**
  * Extended style prop type that includes transform shortcuts.
  * Allows using `x`, `y`, `scale`, etc. directly in the style prop.
+ * Every value can also be a `MotionValue`, which is rendered without
+ * re-running the component.
  */
-export type MotionStyle = JSX.CSSProperties & StyleTransformShortcuts;
+export type MotionStyle = WithMotionStyleValues<
+  JSX.CSSProperties & StyleTransformShortcuts
+>;
 
 export type MotionElement = HTMLElement | SVGElement;
 
@@ -117,6 +133,11 @@ export type MotionTarget<Tag extends ElementTag = ElementTag> = Partial<
 
 type BaseTransition = Omit<ValueAnimationTransition, "type"> & {
   type?: "spring" | "tween" | false;
+  /**
+   * Drive the animation by scroll instead of time. Progress follows the
+   * scroll of `container`, or the position of `target` within it.
+   */
+  scrollTimeline?: ScrollTimelineOptions;
 };
 
 type TransitionOverrideValue = ValueTransition | BaseTransition["type"];
@@ -173,6 +194,177 @@ export interface LegacyAnimationControls<Tag extends ElementTag = ElementTag> {
   mount(): () => void;
 }
 
+/**
+ * The event a drag callback receives: a pointer event, or a keyboard event
+ * when the drag was started with `dragKeyboard`.
+ */
+export type DragGestureEvent =
+  | MouseEvent
+  | TouchEvent
+  | PointerEvent
+  | KeyboardEvent;
+
+export interface HoverDelay {
+  /**
+   * Milliseconds the pointer has to rest on the element before the hover
+   * starts.
+   */
+  enter?: number;
+  /**
+   * Milliseconds the hover stays active after the pointer leaves. Coming
+   * back within this time keeps it going.
+   */
+  leave?: number;
+}
+
+export interface DragAutoScrollOptions {
+  /**
+   * Distance in pixels from the container's edge where scrolling starts.
+   *
+   * @default 50
+   */
+  threshold?: number;
+  /**
+   * Scroll speed in pixels per second when the pointer reaches the edge.
+   *
+   * @default 800
+   */
+  maxSpeed?: number;
+  /**
+   * The container to scroll. Defaults to the nearest scrollable ancestor,
+   * or the window.
+   */
+  container?: Element | Window;
+}
+
+export interface DragSnapPoint {
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Snap points for `dragSnapPoints`: a list of points, per-axis lists, or a
+ * function of the element's layout box returning either.
+ *
+ * Per-axis lists for both axes form a grid. Its points are indexed
+ * `xIndex * y.length + yIndex`.
+ */
+export type DragSnapPoints =
+  | DragSnapPoint[]
+  | { x?: number[]; y?: number[] }
+  | ((box: Box) => DragSnapPoint[] | { x?: number[]; y?: number[] });
+
+export interface DragActivationConstraint {
+  /**
+   * Pixels the pointer has to move before the drag starts.
+   */
+  distance?: number;
+  /**
+   * Milliseconds the pointer has to be held before the drag starts.
+   */
+  delay?: number;
+  /**
+   * Pixels the pointer can move during `delay` before the drag is
+   * abandoned.
+   *
+   * @default 5
+   */
+  tolerance?: number;
+}
+
+/**
+ * A `DragActivationConstraint`, optionally overridden per pointer type.
+ *
+ * @example
+ * ```ts
+ * { distance: 5, touch: { delay: 250 } }
+ * ```
+ */
+export type DragActivationConstraints = DragActivationConstraint & {
+  mouse?: DragActivationConstraint;
+  touch?: DragActivationConstraint;
+  pen?: DragActivationConstraint;
+};
+
+/**
+ * Messages to announce to screen readers during a keyboard drag. Return
+ * `undefined` to stay quiet.
+ */
+export interface DragKeyboardAnnouncements {
+  onDragStart?: (info: PanInfo) => string | undefined;
+  onDrag?: (info: PanInfo) => string | undefined;
+  onDragEnd?: (info: PanInfo) => string | undefined;
+}
+
+export interface DragKeyboardOptions {
+  /**
+   * Pixels moved per arrow key press.
+   *
+   * @default 10
+   */
+  step?: number;
+  /**
+   * Pixels moved per arrow key press while Shift is held.
+   *
+   * @default 50
+   */
+  shiftStep?: number;
+  /**
+   * Written to a polite ARIA live region as the element moves.
+   */
+  announcements?: DragKeyboardAnnouncements;
+}
+
+export type SwipeDirection = "left" | "right" | "up" | "down";
+
+/**
+ * Information about a swipe, passed to `onSwipe`.
+ */
+export interface SwipeInfo {
+  direction: SwipeDirection;
+  /**
+   * Velocity of the pan when it ended, in pixels per second.
+   */
+  velocity: { x: number; y: number };
+  /**
+   * Distance from where the pan started.
+   */
+  offset: { x: number; y: number };
+}
+
+/**
+ * Information about a pinch gesture, passed to `onPinchStart`, `onPinch`
+ * and `onPinchEnd`.
+ */
+export interface PinchInfo {
+  /**
+   * The distance between the two pointers relative to when the pinch started.
+   */
+  scale: number;
+  /**
+   * Degrees the two pointers have rotated since the pinch started.
+   */
+  rotation: number;
+  /**
+   * The point halfway between the two pointers, in client coordinates.
+   */
+  origin: { x: number; y: number };
+  /**
+   * Change in `scale` and `rotation` per second.
+   */
+  velocity: { scale: number; rotation: number };
+}
+
+/**
+ * Limits for the `scale` and `rotate` values written by the `pinch` prop.
+ */
+export interface PinchConstraints {
+  minScale?: number;
+  maxScale?: number;
+  minRotate?: number;
+  maxRotate?: number;
+}
+
 /**
  * SolidJS-friendly viewport options.
  * Unlike motion-dom's ViewportOptions which expects React-style refs ({ current: Element }),
@@ -185,6 +377,67 @@ export interface SolidViewportOptions {
   amount?: "some" | "all" | number;
 }
 
+/**
+ * A point along an element: a named edge, a progress between `0` and `1`,
+ * or a length in `px`, `%`, `vw` or `vh`.
+ */
+export type ScrollEdge =
+  | "start"
+  | "center"
+  | "end"
+  | number
+  | `${number}`
+  | `${number}px`
+  | `${number}%`
+  | `${number}vw`
+  | `${number}vh`;
+
+/**
+ * Where the target meets the container. `"start end"` is reached when the
+ * start of the target meets the end of the container.
+ */
+export type ScrollIntersection =
+  | ScrollEdge
+  | `${ScrollEdge} ${ScrollEdge}`
+  | [ScrollEdge, ScrollEdge];
+
+export type ScrollOffset = ScrollIntersection[];
+
+export type ScrollElementSource =
+  | Element
+  | null
+  | undefined
+  | Accessor<Element | null | undefined>;
+
+/**
+ * Options for linking progress to scroll, shared by `createScroll()` and
+ * `transition.scrollTimeline`.
+ */
+export interface ScrollTimelineOptions {
+  /**
+   * The scrollable element. Defaults to the page.
+   */
+  container?: ScrollElementSource;
+  /**
+   * The element whose position within `container` is tracked. Defaults to
+   * the scrollable content of `container`.
+   */
+  target?: ScrollElementSource;
+  /**
+   * The axis to follow. `createScroll()` only measures this axis when it's
+   * set, and tracks both otherwise. `transition.scrollTimeline` follows
+   * `"y"` by default.
+   */
+  axis?: "x" | "y";
+  /**
+   * Intersections between `target` and `container` that map to a progress
+   * of `0` and `1`.
+   *
+   * @default ["start start", "end end"]
+   */
+  offset?: ScrollOffset;
+}
+
 /**
  * `motion-dom` currently includes some `any`-typed escape hatches (e.g. `custom`).
  * We keep our public surface `unknown`-typed and let callers refine it.
@@ -212,6 +465,9 @@ export type MotionOptions<Tag extends ElementTag = ElementTag> = Omit<
   | "transformTemplate"
   | "onAnimationStart"
   | "onAnimationComplete"
+  | "onDragStart"
+  | "onDrag"
+  | "onDragEnd"
 > & {
   style?: MotionStyle;
   custom?: unknown;
@@ -222,15 +478,132 @@ export type MotionOptions<Tag extends ElementTag = ElementTag> = Omit<
   dragConstraints?: false | Partial<BoundingBox> | Element;
   transition?: Transition<Tag>;
   dragTransition?: Transition<Tag>;
+  /**
+   * Let a focused draggable element be moved with the arrow keys.
+   */
+  dragKeyboard?: boolean | DragKeyboardOptions;
+  /**
+   * How far a pointer has to move, or how long it has to be held, before a
+   * drag starts. Until then, presses reach the element and its children as
+   * usual.
+   */
+  dragActivationConstraint?: DragActivationConstraints;
+  /**
+   * Points the element springs to when released, chosen by where its
+   * momentum would carry it. Values are offsets, like `x` and `y`.
+   */
+  dragSnapPoints?: DragSnapPoints;
+  /**
+   * Scroll the nearest scrollable ancestor, or `container`, while the
+   * pointer drags the element near its edges.
+   */
+  dragAutoScroll?: boolean | DragAutoScrollOptions;
+  /**
+   * Called with the index of the snap point once the element settles on it.
+   */
+  onSnap?: (pointIndex: number) => void;
+  /**
+   * Passed to the `dropZone` callbacks of the zones this element is dragged
+   * over.
+   */
+  dragData?: unknown;
+  /**
+   * Let dragged elements be dropped on this element. While one is over it,
+   * `whileDragOver` is active.
+   */
+  dropZone?: boolean;
+  whileDragOver?: MotionWhileDefinition<Tag>;
+  /**
+   * Called when a dragged element moves over this `dropZone`, with its
+   * `dragData`.
+   */
+  onDropZoneEnter?: (info: PanInfo, data: unknown) => void;
+  onDropZoneLeave?: (info: PanInfo, data: unknown) => void;
+  /**
+   * Called when a dragged element is released over this `dropZone`, with
+   * its `dragData`.
+   */
+  onDropZoneDrop?: (info: PanInfo, data: unknown) => void;
+  /**
+   * Called when a drag starts, with a `KeyboardEvent` for keyboard drags.
+   */
+  onDragStart?(event: DragGestureEvent, info: PanInfo): void;
+  onDrag?(event: DragGestureEvent, info: PanInfo): void;
+  onDragEnd?(event: DragGestureEvent, info: PanInfo): void;
   variants?: Variants<Tag>;
   initial?: MotionAnimationDefinition<Tag>;
   animate?: MotionAnimationDefinition<Tag> | LegacyAnimationControls<Tag>;
   exit?: MotionWhileDefinition<Tag>;
   whileHover?: MotionWhileDefinition<Tag>;
+  /**
+   * Accessors from `createGestureState()` to update with the gestures
+   * active on this element.
+   */
+  gestureState?: GestureState;
+  /**
+   * Delay the start and end of hovers, so sweeping the pointer across the
+   * element doesn't flicker `whileHover`.
+   */
+  hoverDelay?: HoverDelay;
+  /**
+   * The pointer types that can hover the element. Touch never hovers.
+   *
+   * @default ["mouse", "pen"]
+   */
+  hoverPointerTypes?: ("mouse" | "pen")[];
+  /**
+   * End the hover, or abandon a delayed one, when anything scrolls.
+   */
+  hoverCancelOnScroll?: boolean;
   whileTap?: MotionWhileDefinition<Tag>;
   whileFocus?: MotionWhileDefinition<Tag>;
   whileInView?: MotionWhileDefinition<Tag>;
   whileDrag?: MotionWhileDefinition<Tag>;
+  whileLongPress?: MotionWhileDefinition<Tag>;
+  /**
+   * Milliseconds a press has to be held to count as a long press.
+   *
+   * @default 500
+   */
+  longPressDelay?: number;
+  /**
+   * Distance in pixels a pointer can move before a long press is
+   * recognised without cancelling it.
+   *
+   * @default 10
+   */
+  longPressTolerance?: number;
+  onLongPressStart?: (event: PointerEvent, info: TapInfo) => void;
+  onLongPress?: (event: PointerEvent, info: TapInfo) => void;
+  /**
+   * Restrict `onSwipe` to one axis.
+   *
+   * @default true
+   */
+  swipe?: boolean | "x" | "y";
+  /**
+   * Distance in pixels a pan has to travel to count as a swipe.
+   *
+   * @default 50
+   */
+  swipeThreshold?: number;
+  /**
+   * Velocity in pixels per second a pan has to end with to count as a swipe.
+   *
+   * @default 200
+   */
+  swipeVelocity?: number;
+  onSwipe?: (event: PointerEvent, info: SwipeInfo) => void;
+  /**
+   * Write two-finger pinches to the element's `scale` and `rotate` values.
+   * Pass `"scale"` or `"rotate"` to only apply one of them.
+   */
+  pinch?: boolean | "scale" | "rotate";
+  pinchConstraints?: PinchConstraints;
+  whilePinch?: MotionWhileDefinition<Tag>;
+  onPinchStart?: (event: PointerEvent, info: PinchInfo) => void;
+  onPinch?: (event: PointerEvent, info: PinchInfo) => void;
+  onPinchEnd?: (event: PointerEvent, info: PinchInfo) => void;
   transformTemplate?: (
     transform: Record<string, string | number>,
     generatedTransform: string,
@@ -0,0 +1,29 @@
+import { getOwner, onCleanup } from "solid-js";
+import { motionValue, type MotionValue } from "motion-dom";
+
+/**
+ * Create a `MotionValue` owned by the current Solid owner.
+ *
+ * The value can be passed to `style` on any motion component. Motion
+ * components subscribe to it directly, so updates are rendered on the
+ * `frame` loop without re-running Solid computations.
+ *
+ * When the owner is disposed, running animations are stopped and all
+ * subscribers are removed.
+ *
+ * @example
+ * ```tsx
+ * const x = createMotionValue(0);
+ *
+ * return <motion.div style={{ x }} onTap={() => x.set(100)} />;
+ * ```
+ */
+export const createMotionValue = <V>(initial: V): MotionValue<V> => {
+  const value = motionValue(initial);
+
+  if (getOwner()) {
+    onCleanup(() => value.destroy());
+  }
+
+  return value;
+};
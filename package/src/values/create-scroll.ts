@@ -0,0 +1,327 @@
+import { createEffect, getOwner, onCleanup } from "solid-js";
+import {
+  cancelFrame,
+  defaultOffset,
+  frame,
+  interpolate,
+  motionValue,
+  type MotionValue,
+} from "motion-dom";
+import { clamp } from "motion-utils";
+import type {
+  ScrollEdge,
+  ScrollElementSource,
+  ScrollIntersection,
+  ScrollOffset,
+  ScrollTimelineOptions,
+} from "../types";
+
+type ScrollEdgeName = "start" | "center" | "end";
+
+export type CreateScrollOptions = ScrollTimelineOptions;
+
+export interface ScrollMotionValues {
+  scrollX: MotionValue<number>;
+  scrollY: MotionValue<number>;
+  scrollXProgress: MotionValue<number>;
+  scrollYProgress: MotionValue<number>;
+}
+
+const namedEdges: Record<ScrollEdgeName, number> = {
+  start: 0,
+  center: 0.5,
+  end: 1,
+};
+
+export const defaultScrollOffset: ScrollOffset = ["start start", "end end"];
+
+const axes = {
+  x: {
+    position: "scrollLeft",
+    length: "clientWidth",
+    scrollLength: "scrollWidth",
+    offset: "offsetLeft",
+    rect: "left",
+    size: "width",
+  },
+  y: {
+    position: "scrollTop",
+    length: "clientHeight",
+    scrollLength: "scrollHeight",
+    offset: "offsetTop",
+    rect: "top",
+    size: "height",
+  },
+} as const;
+
+type Axis = keyof typeof axes;
+
+export const resolveScrollSource = (source: ScrollElementSource) =>
+  (typeof source === "function" ? source() : source) ?? undefined;
+
+const resolveEdge = (edge: ScrollEdge | string, length: number, inset = 0) => {
+  let delta = 0;
+  let resolved: ScrollEdge | string = edge;
+
+  if (resolved in namedEdges) {
+    resolved = namedEdges[resolved as ScrollEdgeName];
+  }
+
+  if (typeof resolved === "string") {
+    const value = parseFloat(resolved);
+
+    if (resolved.endsWith("px")) {
+      delta = value;
+    } else if (resolved.endsWith("%")) {
+      delta = (length * value) / 100;
+    } else if (resolved.endsWith("vw")) {
+      delta = (document.documentElement.clientWidth * value) / 100;
+    } else if (resolved.endsWith("vh")) {
+      delta = (document.documentElement.clientHeight * value) / 100;
+    } else {
+      delta = length * value;
+    }
+  } else {
+    delta = length * resolved;
+  }
+
+  return inset + delta;
+};
+
+/**
+ * The scroll position at which `intersection` is reached.
+ */
+const resolveIntersection = (
+  intersection: ScrollIntersection,
+  containerLength: number,
+  targetLength: number,
+  targetInset: number,
+) => {
+  let edges: [ScrollEdge | string, ScrollEdge | string];
+
+  if (Array.isArray(intersection)) {
+    edges = intersection;
+  } else if (typeof intersection === "number") {
+    edges = [intersection, intersection];
+  } else {
+    const [targetEdge = "0", containerEdge = targetEdge] = intersection
+      .trim()
+      .split(/\s+/);
+    edges = [targetEdge, containerEdge];
+  }
+
+  return (
+    resolveEdge(edges[0], targetLength, targetInset) -
+    resolveEdge(edges[1], containerLength)
+  );
+};
+
+/**
+ * Offset of `element` from the scrollable content of `container`, or from
+ * the page when `container` isn't reached. Layout offsets are used over
+ * bounding boxes so transforms on the target don't feed back into its own
+ * scroll progress.
+ */
+const measureInset = (
+  element: Element,
+  container: Element | null,
+  axis: Axis,
+): number => {
+  const { offset, rect } = axes[axis];
+  let inset = 0;
+  let current: Element | null = element;
+
+  while (current && current !== container) {
+    if (current instanceof HTMLElement) {
+      inset += current[offset];
+      current = current.offsetParent;
+    } else {
+      const parent: HTMLElement | null = current.parentElement;
+      if (!parent) break;
+      inset +=
+        current.getBoundingClientRect()[rect] -
+        parent.getBoundingClientRect()[rect];
+      current = parent;
+    }
+  }
+
+  // `container` isn't an offset parent of `element`, so measure both from
+  // the page instead.
+  if (current !== container && container instanceof HTMLElement) {
+    inset -=
+      measureInset(container, null, axis) +
+      container[axis === "x" ? "clientLeft" : "clientTop"];
+  }
+
+  return inset;
+};
+
+const measureTargetLength = (target: Element, axis: Axis) =>
+  target instanceof HTMLElement
+    ? target[axis === "x" ? "offsetWidth" : "offsetHeight"]
+    : target.getBoundingClientRect()[axes[axis].size];
+
+/**
+ * Measure the scroll of `containerElement` into `values` on every scroll and
+ * resize until the returned function is called. With `axis`, the values of
+ * the other axis aren't measured.
+ */
+export const trackScroll = (
+  values: ScrollMotionValues,
+  containerElement: Element | undefined,
+  targetElement: Element | undefined,
+  offset: ScrollOffset = defaultScrollOffset,
+  axis?: Axis,
+): VoidFunction => {
+  if (typeof window === "undefined") return () => {};
+
+  const scrollContainer =
+    containerElement ?? document.scrollingElement ?? document.documentElement;
+
+  const measureAxis = (axis: Axis) => {
+    const { position, length, scrollLength } = axes[axis];
+    const current = scrollContainer[position];
+    const containerLength = scrollContainer[length];
+
+    const target =
+      targetElement && targetElement !== scrollContainer
+        ? targetElement
+        : undefined;
+    const targetLength = target
+      ? measureTargetLength(target, axis)
+      : scrollContainer[scrollLength];
+    const targetInset = target
+      ? measureInset(target, scrollContainer, axis)
+      : 0;
+
+    const offsets = offset.map((intersection) =>
+      resolveIntersection(
+        intersection,
+        containerLength,
+        targetLength,
+        targetInset,
+      ),
+    );
+
+    // Ranges that collapse to a point (no scrollable overflow) stay at 0.
+    const isEmpty = offsets.every((point) => point === offsets[0]);
+    const progress = isEmpty
+      ? 0
+      : clamp(
+          0,
+          1,
+          interpolate(offsets, defaultOffset(offsets), { clamp: false })(
+            current,
+          ),
+        );
+
+    return { current, progress };
+  };
+
+  const measure = () => {
+    if (axis !== "y") {
+      const x = measureAxis("x");
+      values.scrollX.set(x.current);
+      values.scrollXProgress.set(x.progress);
+    }
+
+    if (axis !== "x") {
+      const y = measureAxis("y");
+      values.scrollY.set(y.current);
+      values.scrollYProgress.set(y.progress);
+    }
+  };
+
+  const scheduleMeasure = () => frame.read(measure);
+
+  const isPage =
+    scrollContainer === document.scrollingElement ||
+    scrollContainer === document.documentElement;
+  const scrollSource: Element | Window = isPage ? window : scrollContainer;
+
+  measure();
+  scrollSource.addEventListener("scroll", scheduleMeasure, {
+    passive: true,
+  });
+  window.addEventListener("resize", scheduleMeasure);
+
+  const resizeObserver =
+    typeof ResizeObserver === "undefined"
+      ? undefined
+      : new ResizeObserver(scheduleMeasure);
+  resizeObserver?.observe(scrollContainer);
+  if (targetElement) resizeObserver?.observe(targetElement);
+
+  return () => {
+    scrollSource.removeEventListener("scroll", scheduleMeasure);
+    window.removeEventListener("resize", scheduleMeasure);
+    resizeObserver?.disconnect();
+    cancelFrame(measure);
+  };
+};
+
+/**
+ * Track scroll position and progress as `MotionValue`s.
+ *
+ * Without options, the page scroll is tracked and progress runs from `0` at
+ * the top to `1` at the bottom. Both axes are tracked unless `axis` limits
+ * it to one. `container` and `target` can be accessors, so refs that are
+ * assigned after render and elements that change over time are followed.
+ * Listeners are removed when the current owner is disposed.
+ *
+ * @example
+ * ```tsx
+ * let article!: HTMLElement;
+ * const { scrollYProgress } = createScroll({
+ *   target: () => article,
+ *   offset: ["start end", "end start"],
+ * });
+ *
+ * return (
+ *   <>
+ *     <motion.div style={{ "scale-x": scrollYProgress }} />
+ *     <article ref={article}>...</article>
+ *   </>
+ * );
+ * ```
+ */
+export const createScroll = (
+  options: CreateScrollOptions = {},
+): ScrollMotionValues => {
+  const values: ScrollMotionValues = {
+    scrollX: motionValue(0),
+    scrollY: motionValue(0),
+    scrollXProgress: motionValue(0),
+    scrollYProgress: motionValue(0),
+  };
+
+  if (getOwner()) {
+    createEffect(() => {
+      const stop = trackScroll(
+        values,
+        resolveScrollSource(options.container),
+        resolveScrollSource(options.target),
+        options.offset,
+        options.axis,
+      );
+      onCleanup(stop);
+    });
+
+    onCleanup(() => {
+      values.scrollX.destroy();
+      values.scrollY.destroy();
+      values.scrollXProgress.destroy();
+      values.scrollYProgress.destroy();
+    });
+  } else {
+    trackScroll(
+      values,
+      resolveScrollSource(options.container),
+      resolveScrollSource(options.target),
+      options.offset,
+      options.axis,
+    );
+  }
+
+  return values;
+};
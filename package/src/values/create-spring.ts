@@ -0,0 +1,94 @@
+import { createEffect, getOwner, on, onCleanup, type Accessor } from "solid-js";
+import {
+  JSAnimation,
+  isMotionValue,
+  motionValue,
+  type MotionValue,
+  type ValueTransition,
+} from "motion-dom";
+import { secondsToMilliseconds } from "motion-utils";
+import { useMotionConfig } from "../component/motion-config";
+import type { Transition } from "../types";
+
+export type SpringSource = MotionValue<number> | Accessor<number> | number;
+
+const readSource = (source: SpringSource) =>
+  isMotionValue(source)
+    ? source.get()
+    : typeof source === "function"
+      ? source()
+      : source;
+
+/**
+ * Create a `MotionValue` that follows `source` with spring physics.
+ *
+ * `source` can be a `MotionValue`, a Solid accessor or a static number. The
+ * returned value can also be driven directly with `.set()`, and moved
+ * instantly with `.jump()`.
+ *
+ * When the target changes mid-flight the spring keeps its current velocity.
+ * Inside a `MotionConfig` with reduced motion active, the value snaps to its
+ * target instead of springing.
+ *
+ * @example
+ * ```tsx
+ * const [pointerX, setPointerX] = createSignal(0);
+ * const x = createSpring(pointerX, { stiffness: 300, damping: 30 });
+ *
+ * return <motion.div style={{ x }} />;
+ * ```
+ */
+export const createSpring = (
+  source: SpringSource,
+  options: Transition = {},
+): MotionValue<number> => {
+  const motionConfig = useMotionConfig();
+  const value = motionValue(readSource(source));
+  let animation: JSAnimation<number> | null = null;
+
+  const stopAnimation = () => {
+    animation?.stop();
+    animation = null;
+  };
+
+  value.attach((target, set) => {
+    stopAnimation();
+
+    if (motionConfig?.isReducedMotion()) {
+      set(target);
+      return;
+    }
+
+    const current = value.get();
+    if (current === target) return;
+
+    const { duration, ...springOptions } = options;
+
+    animation = new JSAnimation({
+      restDelta: 0.001,
+      restSpeed: 0.01,
+      ...(springOptions as ValueTransition),
+      duration:
+        duration === undefined ? undefined : secondsToMilliseconds(duration),
+      type: "spring",
+      keyframes: [current, target],
+      velocity: value.getVelocity(),
+      onUpdate: set,
+    });
+  }, stopAnimation);
+
+  if (isMotionValue(source)) {
+    const removeSourceListener = source.on("change", (latest) =>
+      value.set(latest),
+    );
+    value.on("destroy", removeSourceListener);
+  } else if (typeof source === "function") {
+    createEffect(on(source, (latest) => value.set(latest), { defer: true }));
+  }
+
+  if (getOwner()) {
+    onCleanup(() => value.destroy());
+  }
+
+  return value;
+};
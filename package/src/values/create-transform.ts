@@ -0,0 +1,148 @@
+import { getOwner, onCleanup } from "solid-js";
+import {
+  cancelFrame,
+  collectMotionValues,
+  frame,
+  motionValue,
+  transform,
+  type MotionValue,
+  type TransformOptions,
+} from "motion-dom";
+
+type SingleTransformer<I, O> = (value: I) => O;
+
+type MultiTransformer<I, O> = (values: I[]) => O;
+
+/**
+ * Create a `MotionValue` whose value is recomputed every time a `MotionValue`
+ * read inside `compute` changes.
+ *
+ * Dependencies are collected on every evaluation, so inputs that are only
+ * read conditionally are tracked as well.
+ */
+const createComputedMotionValue = <O>(compute: () => O): MotionValue<O> => {
+  const subscriptions = new Map<MotionValue, VoidFunction>();
+  let output: MotionValue<O> | undefined;
+
+  const update = () => output?.set(evaluate());
+  const scheduleUpdate = () => frame.preRender(update, false, true);
+
+  const evaluate = () => {
+    const collected: MotionValue[] = [];
+    const previousCollection = collectMotionValues.current;
+    collectMotionValues.current = collected;
+
+    let latest: O;
+    try {
+      latest = compute();
+    } finally {
+      collectMotionValues.current = previousCollection;
+    }
+
+    const dependencies = new Set(collected);
+
+    for (const [dependency, unsubscribe] of subscriptions) {
+      if (dependencies.has(dependency)) continue;
+      unsubscribe();
+      subscriptions.delete(dependency);
+    }
+
+    for (const dependency of dependencies) {
+      if (subscriptions.has(dependency)) continue;
+      subscriptions.set(dependency, dependency.on("change", scheduleUpdate));
+    }
+
+    return latest;
+  };
+
+  output = motionValue(evaluate());
+
+  output.on("destroy", () => {
+    subscriptions.forEach((unsubscribe) => unsubscribe());
+    subscriptions.clear();
+    cancelFrame(update);
+  });
+
+  if (getOwner()) {
+    const value = output;
+    onCleanup(() => value.destroy());
+  }
+
+  return output;
+};
+
+/**
+ * Create a `MotionValue` that derives its value from other `MotionValue`s.
+ *
+ * - `createTransform(() => a.get() * b.get())` recomputes whenever a value
+ *   read inside the function changes.
+ * - `createTransform(input, inputRange, outputRange, options)` maps `input`
+ *   from one range into another. Outputs can be numbers, colors, unit
+ *   strings or complex values such as shadows.
+ * - `createTransform(input, (latest) => ...)` and
+ *   `createTransform([a, b], ([a, b]) => ...)` pass the latest input values
+ *   to a transformer.
+ *
+ * Updates are batched onto the `frame` loop and the output value is
+ * destroyed when the current Solid owner is disposed.
+ *
+ * @example
+ * ```tsx
+ * const x = createMotionValue(0);
+ * const opacity = createTransform(x, [-200, 0, 200], [0, 1, 0]);
+ * const background = createTransform(x, [-200, 200], ["#f00", "#00f"]);
+ *
+ * return <motion.div drag="x" style={{ x, opacity, background }} />;
+ * ```
+ */
+export function createTransform<O>(transformer: () => O): MotionValue<O>;
+export function createTransform<O>(
+  input: MotionValue<number>,
+  inputRange: number[],
+  outputRange: O[],
+  options?: TransformOptions<O>,
+): MotionValue<O>;
+export function createTransform<I, O>(
+  input: MotionValue<I>,
+  transformer: SingleTransformer<I, O>,
+): MotionValue<O>;
+export function createTransform<I, O>(
+  input: MotionValue<I>[],
+  transformer: MultiTransformer<I, O>,
+): MotionValue<O>;
+export function createTransform<I, O>(
+  input: (() => O) | MotionValue<I> | MotionValue<I>[],
+  inputRangeOrTransformer?:
+    | number[]
+    | SingleTransformer<I, O>
+    | MultiTransformer<I, O>,
+  outputRange?: O[],
+  options?: TransformOptions<O>,
+): MotionValue<O> {
+  if (typeof input === "function") {
+    return createComputedMotionValue(input as () => O);
+  }
+
+  if (typeof inputRangeOrTransformer === "function") {
+    const transformer = inputRangeOrTransformer;
+
+    return createComputedMotionValue(() =>
+      Array.isArray(input)
+        ? (transformer as MultiTransformer<I, O>)(
+            input.map((value) => value.get()),
+          )
+        : (transformer as SingleTransformer<I, O>)(
+            (input as MotionValue<I>).get(),
+          ),
+    );
+  }
+
+  const map = transform(
+    inputRangeOrTransformer ?? [],
+    outputRange ?? [],
+    options,
+  );
+  const source = input as unknown as MotionValue<number>;
+
+  return createComputedMotionValue(() => map(source.get()));
+}
@@ -0,0 +1,13 @@
+export { createMotionValue } from "./create-motion-value";
+export { createTransform } from "./create-transform";
+export {
+  createScroll,
+  type CreateScrollOptions,
+  type ScrollMotionValues,
+} from "./create-scroll";
+export { createSpring, type SpringSource } from "./create-spring";
+export {
+  accessorFromMotionValue,
+  motionValueFromAccessor,
+  type AccessorFromMotionValueOptions,
+} from "./signal-bridge";
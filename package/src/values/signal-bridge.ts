@@ -0,0 +1,89 @@
+import {
+  createEffect,
+  createSignal,
+  getOwner,
+  on,
+  onCleanup,
+  type Accessor,
+} from "solid-js";
+import { cancelFrame, frame, motionValue, type MotionValue } from "motion-dom";
+
+export interface AccessorFromMotionValueOptions {
+  /**
+   * How often the accessor is updated.
+   * - "frame": at most once per animation frame, in the frame's render step
+   * - false: synchronously on every change
+   *
+   * @default "frame"
+   */
+  throttle?: "frame" | false;
+}
+
+/**
+ * Create a `MotionValue` that is kept in sync with a Solid accessor.
+ *
+ * Signals, stores and memos can drive animation values this way. The value is
+ * updated whenever the accessor changes and destroyed when the current owner
+ * is disposed.
+ *
+ * @example
+ * ```tsx
+ * const [progress, setProgress] = createSignal(0);
+ * const scaleX = motionValueFromAccessor(progress);
+ *
+ * return <motion.div style={{ "scale-x": scaleX }} />;
+ * ```
+ */
+export const motionValueFromAccessor = <V>(
+  accessor: Accessor<V>,
+): MotionValue<V> => {
+  const value = motionValue(accessor());
+
+  createEffect(on(accessor, (latest) => value.set(latest), { defer: true }));
+
+  if (getOwner()) {
+    onCleanup(() => value.destroy());
+  }
+
+  return value;
+};
+
+/**
+ * Read a `MotionValue` reactively.
+ *
+ * By default, updates are batched onto the `frame` loop so a value that
+ * changes on every animation tick re-runs dependent computations at most
+ * once per frame. The subscription is removed when the current owner is
+ * disposed.
+ *
+ * @example
+ * ```tsx
+ * const count = createMotionValue(0);
+ * const latest = accessorFromMotionValue(count);
+ *
+ * return <span>{Math.round(latest())}</span>;
+ * ```
+ */
+export const accessorFromMotionValue = <V>(
+  value: MotionValue<V>,
+  options: AccessorFromMotionValueOptions = {},
+): Accessor<V> => {
+  const { throttle = "frame" } = options;
+  const [latest, setLatest] = createSignal<V>(value.get());
+
+  const commit = () => setLatest(() => value.get());
+
+  const removeChangeListener = value.on(
+    "change",
+    throttle === "frame" ? () => frame.render(commit) : commit,
+  );
+
+  if (getOwner()) {
+    onCleanup(() => {
+      removeChangeListener();
+      cancelFrame(commit);
+    });
+  }
+
+  return latest;
+};
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render } from "@solidjs/testing-library";
+import { motionValue, visualElementStore } from "motion-dom";
+import { motion } from "../../src";
+import { animate } from "../../src/animation/animate";
+import { stagger } from "../../src/animation/stagger";
+
+const createElement = (className?: string) => {
+  const element = document.createElement("div");
+  if (className) element.className = className;
+  document.body.appendChild(element);
+  return element;
+};
+
+const translateX = (element: HTMLElement) =>
+  parseFloat(
+    /translateX\(([-\d.]+)px\)/.exec(element.style.transform)?.[1] ?? "0",
+  );
+
+describe("animate", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("animates an element and resolves when finished", async () => {
+    const element = createElement();
+    const onResolve = vi.fn();
+
+    animate(element, { x: 100 }, { duration: 0.2, ease: "linear" }).then(
+      onResolve,
+    );
+
+    await vi.advanceTimersByTimeAsync(120);
+    expect(translateX(element)).toBeGreaterThan(0);
+    expect(translateX(element)).toBeLessThan(100);
+    expect(onResolve).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(element.style.transform).toBe("translateX(100px)");
+    expect(onResolve).toHaveBeenCalledTimes(1);
+  });
+
+  it("normalizes kebab-case keys like the animate prop", async () => {
+    const element = createElement();
+
+    animate(
+      element,
+      { "scale-x": 2, "background-color": "#ff0000" },
+      { duration: 0.1 },
+    );
+
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(element.style.transform).toBe("scaleX(2)");
+    expect(element.style.backgroundColor).toBe("rgb(255, 0, 0)");
+  });
+
+  it("supports per-value transitions with kebab-case keys", async () => {
+    const element = createElement();
+
+    animate(
+      element,
+      { x: 100, "scale-x": 2 },
+      { duration: 0.1, ease: "linear", "scale-x": { duration: 0.5 } },
+    );
+
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(translateX(element)).toBe(100);
+    expect(element.style.transform).not.toContain("scaleX(2)");
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(element.style.transform).toContain("scaleX(2)");
+  });
+
+  it("animates every element matched by a selector with staggered delays", async () => {
+    const first = createElement("item");
+    const second = createElement("item");
+
+    animate(
+      ".item",
+      { x: 50 },
+      { duration: 0.1, ease: "linear", delay: stagger(0.3) },
+    );
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(translateX(first)).toBe(50);
+    expect(translateX(second)).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(translateX(second)).toBe(50);
+  });
+
+  it("exposes pause, play and time controls", async () => {
+    const element = createElement();
+    const controls = animate(
+      element,
+      { x: 100 },
+      { duration: 1, ease: "linear" },
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+    controls.pause();
+    await vi.advanceTimersByTimeAsync(20);
+    const pausedAt = translateX(element);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(translateX(element)).toBe(pausedAt);
+
+    controls.time = 0.5;
+    await vi.advanceTimersByTimeAsync(20);
+    expect(translateX(element)).toBeCloseTo(50, 0);
+
+    controls.play();
+    await vi.advanceTimersByTimeAsync(700);
+    expect(translateX(element)).toBe(100);
+  });
+
+  it("stops an animation in place", async () => {
+    const element = createElement();
+    const controls = animate(
+      element,
+      { x: 100 },
+      { duration: 1, ease: "linear" },
+    );
+
+    await vi.advanceTimersByTimeAsync(300);
+    controls.stop();
+    await vi.advanceTimersByTimeAsync(20);
+    const stoppedAt = translateX(element);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(stoppedAt).toBeGreaterThan(0);
+    expect(translateX(element)).toBe(stoppedAt);
+  });
+
+  it("interrupts a previous animation on the same element", async () => {
+    const element = createElement();
+
+    animate(element, { x: 100 }, { duration: 1 });
+    await vi.advanceTimersByTimeAsync(200);
+    animate(element, { x: -50 }, { duration: 0.2 });
+
+    await vi.advanceTimersByTimeAsync(1200);
+    expect(translateX(element)).toBe(-50);
+  });
+
+  it("reuses the values of elements rendered by motion components", async () => {
+    const { getByTestId } = render(() => (
+      <motion.div data-testid="box" style={{ x: "20px" }} />
+    ));
+    const element = getByTestId("box");
+    const visualElement = visualElementStore.get(element);
+
+    animate(element, { x: 80 }, { duration: 0.1 });
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(visualElement?.getValue("x")?.get()).toBe(80);
+    expect(element.style.transform).toBe("translateX(80px)");
+  });
+
+  it("animates a MotionValue", async () => {
+    const value = motionValue(0);
+
+    const controls = animate(value, 100, { duration: 0.2, ease: "linear" });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(value.get()).toBeGreaterThan(0);
+    expect(value.get()).toBeLessThan(100);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await controls;
+    expect(value.get()).toBe(100);
+  });
+
+  it("animates plain numbers through keyframes and reports updates", async () => {
+    const onUpdate = vi.fn();
+
+    animate(0, [0, 50, 10], { duration: 0.2, onUpdate });
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(onUpdate).toHaveBeenCalled();
+    expect(onUpdate).toHaveBeenLastCalledWith(10);
+  });
+
+  it("animates plain colors", async () => {
+    const onUpdate = vi.fn();
+
+    animate("#ffffff", "#000000", { duration: 0.1, onUpdate });
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(onUpdate.mock.calls[0]?.[0]).toMatch(/^rgba\(/);
+    expect(onUpdate).toHaveBeenLastCalledWith("#000000");
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import { render } from "@solidjs/testing-library";
+import { createRoot } from "solid-js";
+import { createAnimationControls, motion } from "../../src";
+
+const translateX = (element: Element) =>
+  parseFloat(
+    /translateX\(([-\d.]+)px\)/.exec(
+      (element as HTMLElement).style.transform,
+    )?.[1] ?? "0",
+  );
+
+describe("createAnimationControls", () => {
+  it("starts a target on every subscribed component", async () => {
+    let controls!: ReturnType<typeof createAnimationControls>;
+
+    const { getByTestId } = render(() => {
+      controls = createAnimationControls();
+      return (
+        <>
+          <motion.div data-testid="a" animate={controls} />
+          <motion.div data-testid="b" animate={controls} />
+        </>
+      );
+    });
+
+    await vi.advanceTimersByTimeAsync(20);
+
+    let resolved = false;
+    void controls
+      .start({ x: 100 }, { duration: 0.1, ease: "linear" })
+      .then(() => (resolved = true));
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(resolved).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(resolved).toBe(true);
+    expect(translateX(getByTestId("a"))).toBe(100);
+    expect(translateX(getByTestId("b"))).toBe(100);
+  });
+
+  it("starts variants and normalizes kebab-case keys", async () => {
+    let controls!: ReturnType<typeof createAnimationControls>;
+
+    const { getByTestId } = render(() => {
+      controls = createAnimationControls();
+      return (
+        <motion.div
+          data-testid="box"
+          animate={controls}
+          variants={{ moved: { x: 40 } }}
+        />
+      );
+    });
+
+    await vi.advanceTimersByTimeAsync(20);
+
+    await Promise.all([
+      controls.start("moved", { duration: 0.1 }),
+      vi.advanceTimersByTimeAsync(200),
+    ]);
+    expect(translateX(getByTestId("box"))).toBe(40);
+
+    await Promise.all([
+      controls.start({ "background-color": "#ff0000" }, { duration: 0.1 }),
+      vi.advanceTimersByTimeAsync(200),
+    ]);
+    expect(getByTestId("box").style.backgroundColor).toBe("rgb(255, 0, 0)");
+  });
+
+  it("sets values instantly", async () => {
+    let controls!: ReturnType<typeof createAnimationControls>;
+
+    const { getByTestId } = render(() => {
+      controls = createAnimationControls();
+      return <motion.div data-testid="box" animate={controls} />;
+    });
+
+    await vi.advanceTimersByTimeAsync(20);
+    controls.set({ x: 25 });
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(translateX(getByTestId("box"))).toBe(25);
+  });
+
+  it("defers calls made before mount", async () => {
+    const { getByTestId } = render(() => {
+      const controls = createAnimationControls();
+      void controls.start({ x: 60 }, { duration: 0.1 });
+      return <motion.div data-testid="box" animate={controls} />;
+    });
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(translateX(getByTestId("box"))).toBe(60);
+  });
+
+  it("stops running animations", async () => {
+    let controls!: ReturnType<typeof createAnimationControls>;
+
+    const { getByTestId } = render(() => {
+      controls = createAnimationControls();
+      return <motion.div data-testid="box" animate={controls} />;
+    });
+
+    await vi.advanceTimersByTimeAsync(20);
+    void controls.start({ x: 100 }, { duration: 1, ease: "linear" });
+    await vi.advanceTimersByTimeAsync(300);
+    controls.stop();
+    await vi.advanceTimersByTimeAsync(20);
+
+    const stoppedAt = translateX(getByTestId("box"));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(stoppedAt).toBeGreaterThan(0);
+    expect(stoppedAt).toBeLessThan(100);
+    expect(translateX(getByTestId("box"))).toBe(stoppedAt);
+  });
+
+  it("resolves immediately without subscribers", async () => {
+    await createRoot(async (dispose) => {
+      const controls = createAnimationControls();
+      await expect(controls.start({ x: 10 })).resolves.toEqual([]);
+      dispose();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from "vitest";
+import { render } from "@solidjs/testing-library";
+import type { GroupAnimationWithThen } from "motion-dom";
+import { createRoot, createSignal, onCleanup, Show } from "solid-js";
+import { AnimatePresence, createAnimate, usePresence } from "../../src";
+
+const translateX = (element: Element) =>
+  parseFloat(
+    /translateX\(([-\d.]+)px\)/.exec(
+      (element as HTMLElement).style.transform,
+    )?.[1] ?? "0",
+  );
+
+describe("createAnimate", () => {
+  it("resolves selectors inside the scoped element only", async () => {
+    let animate!: ReturnType<typeof createAnimate>[1];
+
+    const { getByTestId } = render(() => {
+      const [scope, scopedAnimate] = createAnimate();
+      animate = scopedAnimate;
+
+      return (
+        <>
+          <div ref={scope}>
+            <span class="item" data-testid="inside" />
+          </div>
+          <span class="item" data-testid="outside" />
+        </>
+      );
+    });
+
+    animate(".item", { x: 100 }, { duration: 0.1 });
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(translateX(getByTestId("inside"))).toBe(100);
+    expect(translateX(getByTestId("outside"))).toBe(0);
+  });
+
+  it("exposes the scoped element and tracks running animations", async () => {
+    let scope!: ReturnType<typeof createAnimate>[0];
+    let animate!: ReturnType<typeof createAnimate>[1];
+
+    const { getByTestId } = render(() => {
+      [scope, animate] = createAnimate();
+      return <div ref={scope} data-testid="scope" />;
+    });
+
+    expect(scope.current).toBe(getByTestId("scope"));
+
+    const controls = animate(scope.current!, { x: 50 }, { duration: 0.1 });
+    expect(scope.animations).toContain(controls);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(scope.animations).toHaveLength(0);
+  });
+
+  it("does nothing for selectors before the scope is mounted", () => {
+    createRoot((dispose) => {
+      const [, animate] = createAnimate();
+      const controls = animate(".item", {
+        x: 100,
+      }) as GroupAnimationWithThen;
+
+      expect(controls.animations).toHaveLength(0);
+      dispose();
+    });
+  });
+
+  it("cancels running animations when the owner is disposed", async () => {
+    const element = document.createElement("div");
+    document.body.appendChild(element);
+
+    const dispose = createRoot((dispose) => {
+      const [scope, animate] = createAnimate();
+      scope(element);
+      animate(element, { x: 100 }, { duration: 1, ease: "linear" });
+      return dispose;
+    });
+
+    await vi.advanceTimersByTimeAsync(300);
+    dispose();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(translateX(element)).toBeLessThan(100);
+    document.body.removeChild(element);
+  });
+
+  it("holds an exit open until safeToRemove is called", async () => {
+    const [show, setShow] = createSignal(true);
+    const exitComplete = vi.fn();
+
+    const Item = () => {
+      const [, safeToRemove] = usePresence();
+      const [scope, animate] = createAnimate();
+
+      onCleanup(async () => {
+        await animate(scope.current!, { x: 100 }, { duration: 0.3 });
+        safeToRemove?.();
+      });
+
+      return <div ref={scope} data-testid="item" />;
+    };
+
+    const { queryByTestId } = render(() => (
+      <AnimatePresence onExitComplete={exitComplete}>
+        <Show when={show()}>
+          <Item />
+        </Show>
+      </AnimatePresence>
+    ));
+
+    const item = queryByTestId("item")!;
+    setShow(false);
+
+    await vi.advanceTimersByTimeAsync(150);
+    expect(queryByTestId("item")).toBe(item);
+    expect(translateX(item)).toBeGreaterThan(0);
+    expect(exitComplete).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(translateX(item)).toBe(100);
+    expect(queryByTestId("item")).toBeNull();
+    expect(exitComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not hold exits for components without usePresence", async () => {
+    const [show, setShow] = createSignal(true);
+
+    const Item = () => {
+      const [scope] = createAnimate();
+      return <div ref={scope} data-testid="item" />;
+    };
+
+    const { queryByTestId } = render(() => (
+      <AnimatePresence>
+        <Show when={show()}>
+          <Item />
+        </Show>
+      </AnimatePresence>
+    ));
+
+    setShow(false);
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(queryByTestId("item")).toBeNull();
+  });
+});
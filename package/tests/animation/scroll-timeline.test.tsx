@@ -0,0 +1,206 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { render } from "@solidjs/testing-library";
+import { MotionValue, supportsFlags, visualElementStore } from "motion-dom";
+import { MotionConfig, motion } from "../../src";
+
+const translateX = (element: Element) =>
+  parseFloat(
+    /translateX\(([-\d.]+)px\)/.exec(
+      (element as HTMLElement).style.transform,
+    )?.[1] ?? "0",
+  );
+
+const createContainer = () => {
+  const container = document.createElement("div");
+  for (const [key, value] of Object.entries({
+    scrollTop: 0,
+    scrollLeft: 0,
+    clientHeight: 100,
+    clientWidth: 100,
+    scrollHeight: 500,
+    scrollWidth: 100,
+  })) {
+    Object.defineProperty(container, key, { writable: true, value });
+  }
+  document.body.appendChild(container);
+  return container;
+};
+
+const scrollTo = async (element: Element, scrollTop: number) => {
+  Object.defineProperty(element, "scrollTop", {
+    writable: true,
+    value: scrollTop,
+  });
+  element.dispatchEvent(new Event("scroll"));
+  await vi.advanceTimersByTimeAsync(40);
+};
+
+class MockScrollTimeline {
+  currentTime = null;
+  constructor(public options: Record<string, unknown>) {}
+}
+
+const stubTimeline = (name: "ScrollTimeline" | "ViewTimeline") => {
+  Object.defineProperty(window, name, {
+    configurable: true,
+    writable: true,
+    value: MockScrollTimeline,
+  });
+};
+
+afterEach(() => {
+  supportsFlags.scrollTimeline = undefined;
+  supportsFlags.viewTimeline = undefined;
+  delete (window as Partial<typeof window>).ScrollTimeline;
+  delete (window as Partial<typeof window>).ViewTimeline;
+  document.body.innerHTML = "";
+});
+
+describe("transition.scrollTimeline", () => {
+  it("follows scroll progress from JS for values the compositor can't run", async () => {
+    const container = createContainer();
+
+    const { getByTestId } = render(() => (
+      <motion.div
+        data-testid="box"
+        initial={{ x: 0 }}
+        animate={{ x: 100 }}
+        transition={{ ease: "linear", scrollTimeline: { container } }}
+      />
+    ));
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(translateX(getByTestId("box"))).toBe(0);
+
+    await scrollTo(container, 200);
+    expect(translateX(getByTestId("box"))).toBeCloseTo(50);
+
+    await scrollTo(container, 400);
+    expect(translateX(getByTestId("box"))).toBeCloseTo(100);
+
+    await scrollTo(container, 100);
+    expect(translateX(getByTestId("box"))).toBeCloseTo(25);
+  });
+
+  it("only follows scroll for values whose transition sets it", async () => {
+    const container = createContainer();
+    const on = vi.spyOn(MotionValue.prototype, "on");
+
+    const { getByTestId } = render(() => (
+      <motion.div
+        data-testid="box"
+        initial={{ x: 0, opacity: 0 }}
+        animate={{ x: 100, opacity: 1 }}
+        transition={{
+          ease: "linear",
+          scrollTimeline: { container },
+          opacity: { duration: 0 },
+        }}
+      />
+    ));
+
+    await vi.advanceTimersByTimeAsync(100);
+    const box = getByTestId("box");
+    expect(box.style.opacity).toBe("1");
+    expect(translateX(box)).toBe(0);
+
+    await scrollTo(container, 200);
+    expect(translateX(box)).toBeCloseTo(50);
+
+    const subscribed = on.mock.contexts.filter(
+      (_, index) => on.mock.calls[index]?.[0] === "animationStart",
+    );
+    expect(subscribed).toEqual([visualElementStore.get(box)?.getValue("x")]);
+    expect(Object.hasOwn(visualElementStore.get(box)!, "addValue")).toBe(false);
+
+    on.mockRestore();
+  });
+
+  it("attaches compositor animations to a native ScrollTimeline", async () => {
+    const container = createContainer();
+    stubTimeline("ScrollTimeline");
+    supportsFlags.scrollTimeline = true;
+    const animateSpy = vi.spyOn(Element.prototype, "animate");
+
+    render(() => (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ scrollTimeline: { container, axis: "y" } }}
+      />
+    ));
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    const animation = animateSpy.mock.results.at(-1)?.value as Animation;
+    expect(animation.timeline).toBeInstanceOf(MockScrollTimeline);
+    expect(
+      (animation.timeline as unknown as MockScrollTimeline).options,
+    ).toEqual({ source: container, axis: "y" });
+
+    animateSpy.mockRestore();
+  });
+
+  it("maps target offsets to ViewTimeline ranges", async () => {
+    stubTimeline("ScrollTimeline");
+    stubTimeline("ViewTimeline");
+    supportsFlags.scrollTimeline = true;
+    supportsFlags.viewTimeline = true;
+    const animateSpy = vi.spyOn(Element.prototype, "animate");
+
+    let target!: HTMLDivElement;
+    render(() => (
+      <>
+        <div ref={(el) => (target = el)} />
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{
+            scrollTimeline: {
+              target: () => target,
+              offset: ["start end", "end start"],
+            },
+          }}
+        />
+      </>
+    ));
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    const animation = animateSpy.mock.results.at(-1)?.value as Animation & {
+      rangeStart?: string;
+      rangeEnd?: string;
+    };
+    expect(
+      (animation.timeline as unknown as MockScrollTimeline).options,
+    ).toEqual({ subject: target, axis: "y" });
+    expect(animation.rangeStart).toBe("entry 0%");
+    expect(animation.rangeEnd).toBe("exit 100%");
+
+    animateSpy.mockRestore();
+  });
+
+  it("can be limited to JS through MotionConfig", async () => {
+    const container = createContainer();
+    stubTimeline("ScrollTimeline");
+    supportsFlags.scrollTimeline = true;
+    const animateSpy = vi.spyOn(Element.prototype, "animate");
+
+    render(() => (
+      <MotionConfig nativeScrollTimeline={false}>
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ scrollTimeline: { container } }}
+        />
+      </MotionConfig>
+    ));
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    const animation = animateSpy.mock.results.at(-1)?.value as Animation;
+    expect(animation.timeline).toBeNull();
+
+    animateSpy.mockRestore();
+  });
+});
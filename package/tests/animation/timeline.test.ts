@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createRoot } from "solid-js";
+import { motionValue } from "motion-dom";
+import { createTimeline } from "../../src/animation/timeline";
+import { stagger } from "../../src/animation/stagger";
+
+const createElement = (className?: string) => {
+  const element = document.createElement("div");
+  if (className) element.className = className;
+  document.body.appendChild(element);
+  return element;
+};
+
+const translateX = (element: HTMLElement) =>
+  parseFloat(
+    /translateX\(([-\d.]+)px\)/.exec(element.style.transform)?.[1] ?? "0",
+  );
+
+const nextFrame = () => vi.advanceTimersByTimeAsync(20);
+
+let disposeTimeline: VoidFunction | undefined;
+
+// Run timelines under an owner so paused ones are stopped after each test
+// and don't keep the frame loop alive across fake timer resets.
+const timeline = (...args: Parameters<typeof createTimeline>) =>
+  createRoot((dispose) => {
+    disposeTimeline = dispose;
+    return createTimeline(...args);
+  });
+
+describe("createTimeline", () => {
+  afterEach(() => {
+    disposeTimeline?.();
+    disposeTimeline = undefined;
+    document.body.innerHTML = "";
+  });
+
+  it("plays segments one after another", async () => {
+    const a = createElement();
+    const b = createElement();
+
+    timeline([
+      [a, { x: 100 }, { duration: 0.2, ease: "linear" }],
+      [b, { x: 100 }, { duration: 0.2, ease: "linear" }],
+    ]);
+
+    await vi.advanceTimersByTimeAsync(220);
+    expect(translateX(a)).toBe(100);
+    expect(translateX(b)).toBeLessThan(20);
+
+    await vi.advanceTimersByTimeAsync(220);
+    expect(translateX(b)).toBe(100);
+  });
+
+  it("positions segments with <, relative offsets, absolute times and labels", async () => {
+    const a = motionValue(0);
+    const b = motionValue(0);
+    const c = motionValue(0);
+    const d = motionValue(0);
+    const e = motionValue(0);
+
+    const controls = timeline([
+      [a, 1, { duration: 1, ease: "linear" }],
+      "after-a",
+      [b, 1, { duration: 1, ease: "linear", at: "<" }],
+      [c, 1, { duration: 1, ease: "linear", at: "+0.5" }],
+      [d, 1, { duration: 0.5, ease: "linear", at: "after-a" }],
+      { name: "late", at: 3 },
+      [e, 1, { duration: 0.5, ease: "linear", at: "late" }],
+    ]);
+
+    controls.pause();
+    expect(controls.duration).toBeCloseTo(3.5);
+
+    controls.seek(0.5);
+    await nextFrame();
+    expect(a.get()).toBeCloseTo(0.5);
+    expect(b.get()).toBeCloseTo(0.5);
+    expect(c.get()).toBe(0);
+
+    controls.seek(1.25);
+    await nextFrame();
+    expect(d.get()).toBeCloseTo(0.5);
+
+    controls.seek(2);
+    await nextFrame();
+    expect(c.get()).toBeCloseTo(0.5);
+
+    controls.seek("late");
+    await nextFrame();
+    expect(e.get()).toBe(0);
+    controls.seek(3.25);
+    await nextFrame();
+    expect(e.get()).toBeCloseTo(0.5);
+  });
+
+  it("pulls the next segment back with a negative offset", async () => {
+    const a = motionValue(0);
+    const b = motionValue(0);
+
+    const controls = timeline([
+      [a, 1, { duration: 1, ease: "linear" }],
+      [b, 1, { duration: 1, ease: "linear", at: "-0.5" }],
+    ]);
+
+    controls.pause();
+    expect(controls.duration).toBeCloseTo(1.5);
+
+    controls.seek(1);
+    await nextFrame();
+    expect(b.get()).toBeCloseTo(0.5);
+  });
+
+  it("staggers elements matched by a selector", async () => {
+    createElement("item");
+    createElement("item");
+    const [first, second] = Array.from(
+      document.querySelectorAll<HTMLElement>(".item"),
+    );
+
+    const controls = timeline([
+      [
+        ".item",
+        { x: 100 },
+        { duration: 1, ease: "linear", delay: stagger(0.5) },
+      ],
+    ]);
+
+    controls.pause();
+    expect(controls.duration).toBeCloseTo(1.5);
+
+    controls.seek(0.75);
+    await nextFrame();
+    expect(translateX(first!)).toBeCloseTo(75, 0);
+    expect(translateX(second!)).toBeCloseTo(25, 0);
+  });
+
+  it("uses defaultTransition for segments without their own", async () => {
+    const value = motionValue(0);
+
+    const controls = timeline([[value, 10]], {
+      defaultTransition: { duration: 2, ease: "linear" },
+    });
+
+    controls.pause();
+    expect(controls.duration).toBeCloseTo(2);
+    controls.seek(1);
+    await nextFrame();
+    expect(value.get()).toBeCloseTo(5);
+  });
+
+  it("rescales the timeline to a fixed duration", async () => {
+    const a = motionValue(0);
+    const b = motionValue(0);
+
+    const controls = timeline(
+      [
+        [a, 1, { duration: 1, ease: "linear" }],
+        "middle",
+        [b, 1, { duration: 1, ease: "linear" }],
+      ],
+      { duration: 1 },
+    );
+
+    controls.pause();
+    expect(controls.duration).toBeCloseTo(1);
+
+    controls.seek("middle");
+    await nextFrame();
+    expect(a.get()).toBeCloseTo(1);
+    expect(b.get()).toBe(0);
+  });
+
+  it("repeats the whole sequence", async () => {
+    const value = motionValue(0);
+    const onResolve = vi.fn();
+
+    timeline([[value, 1, { duration: 0.2 }]], { repeat: 1 }).then(onResolve);
+
+    await vi.advanceTimersByTimeAsync(260);
+    expect(onResolve).not.toHaveBeenCalled();
+    expect(value.get()).toBeLessThan(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(value.get()).toBe(1);
+    expect(onResolve).toHaveBeenCalledTimes(1);
+  });
+
+  it("changes speed and reverses as one unit", async () => {
+    const a = motionValue(0);
+    const b = motionValue(0);
+
+    const controls = timeline([
+      [a, 1, { duration: 1, ease: "linear" }],
+      [b, 1, { duration: 1, ease: "linear" }],
+    ]);
+
+    controls.speed = 2;
+    await vi.advanceTimersByTimeAsync(500);
+    expect(a.get()).toBeCloseTo(1, 1);
+
+    controls.pause();
+    controls.seek(1.5);
+    await nextFrame();
+    expect(b.get()).toBeCloseTo(0.5);
+
+    controls.speed = 1;
+    controls.reverse();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(b.get()).toBe(0);
+    expect(a.get()).toBeCloseTo(0.5, 1);
+  });
+
+  it("plays a finished timeline backwards", async () => {
+    const value = motionValue(0);
+    const controls = timeline([[value, 1, { duration: 0.5, ease: "linear" }]]);
+
+    await vi.advanceTimersByTimeAsync(600);
+    expect(value.get()).toBe(1);
+
+    controls.reverse();
+    await vi.advanceTimersByTimeAsync(250);
+    expect(value.get()).toBeGreaterThan(0);
+    expect(value.get()).toBeLessThan(1);
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(value.get()).toBe(0);
+  });
+
+  it("stops when the owner is disposed", async () => {
+    const value = motionValue(0);
+
+    const dispose = createRoot((dispose) => {
+      createTimeline([[value, 100, { duration: 1, ease: "linear" }]]);
+      return dispose;
+    });
+
+    await vi.advanceTimersByTimeAsync(200);
+    dispose();
+    const stoppedAt = value.get();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(stoppedAt).toBeGreaterThan(0);
+    expect(value.get()).toBe(stoppedAt);
+  });
+});
@@ -0,0 +1,132 @@
+import { render, screen } from "@solidjs/testing-library";
+import { setFeatureDefinitions, visualElementStore } from "motion-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  LazyMotion,
+  createMotionComponent,
+  domAnimation,
+  domMax,
+  m,
+  motion,
+  type FeatureBundle,
+} from "../../src";
+
+// In browsers without `process`, motion-utils' `invariant` does nothing.
+vi.mock("motion-utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("motion-utils")>()),
+  invariant: () => undefined,
+}));
+
+describe("LazyMotion", () => {
+  beforeEach(() => {
+    setFeatureDefinitions({});
+  });
+
+  it("renders m components without features until a lazy bundle loads", async () => {
+    let resolveFeatures!: (features: FeatureBundle) => void;
+    const features = new Promise<FeatureBundle>((resolve) => {
+      resolveFeatures = resolve;
+    });
+
+    render(() => (
+      <LazyMotion features={() => features}>
+        <m.div
+          data-testid="target"
+          initial={{ x: 0 }}
+          animate={{ x: 100 }}
+          transition={{ duration: 0.1 }}
+        />
+      </LazyMotion>
+    ));
+
+    const element = screen.getByTestId("target");
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(visualElementStore.get(element)?.animationState).toBeUndefined();
+    expect(element.style.transform).toBe("none");
+
+    resolveFeatures(domAnimation);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(visualElementStore.get(element)?.animationState).toBeDefined();
+    expect(element.style.transform).toBe("translateX(100px)");
+  });
+
+  it("loads a feature bundle passed directly", async () => {
+    render(() => (
+      <LazyMotion features={domAnimation}>
+        <m.div
+          data-testid="target"
+          initial={{ x: 0 }}
+          animate={{ x: 100 }}
+          transition={{ duration: 0.1 }}
+        />
+      </LazyMotion>
+    ));
+
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(screen.getByTestId("target").style.transform).toBe(
+      "translateX(100px)",
+    );
+  });
+
+  it("only creates projection nodes once layout is loaded", () => {
+    render(() => (
+      <LazyMotion features={domAnimation}>
+        <m.div data-testid="animation" layout />
+      </LazyMotion>
+    ));
+
+    expect(
+      visualElementStore.get(screen.getByTestId("animation"))?.projection,
+    ).toBeUndefined();
+
+    render(() => (
+      <LazyMotion features={domMax}>
+        <m.div data-testid="max" layout />
+      </LazyMotion>
+    ));
+
+    expect(
+      visualElementStore.get(screen.getByTestId("max"))?.projection,
+    ).toBeDefined();
+  });
+
+  it("loads every feature for components from createMotionComponent", async () => {
+    const MotionDiv = createMotionComponent("div");
+
+    render(() => (
+      <MotionDiv
+        data-testid="target"
+        initial={{ x: 0 }}
+        animate={{ x: 100 }}
+        transition={{ duration: 0.1 }}
+      />
+    ));
+
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(screen.getByTestId("target").style.transform).toBe(
+      "translateX(100px)",
+    );
+  });
+
+  it("throws when a motion component is rendered in strict mode", () => {
+    expect(() =>
+      render(() => (
+        <LazyMotion features={domAnimation} strict>
+          <motion.div />
+        </LazyMotion>
+      )),
+    ).toThrow(/LazyMotion/);
+
+    expect(() =>
+      render(() => (
+        <LazyMotion features={domAnimation} strict>
+          <m.div />
+        </LazyMotion>
+      )),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,197 @@
+import { render, screen } from "@solidjs/testing-library";
+import { visualElementStore } from "motion-dom";
+import { For, createSignal } from "solid-js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Reorder } from "../../src";
+import { checkReorder } from "../../src/component/reorder-context";
+
+const itemHeight = 50;
+
+// jsdom doesn't implement pointer capture.
+Object.assign(HTMLElement.prototype, {
+  setPointerCapture: () => {},
+  releasePointerCapture: () => {},
+  hasPointerCapture: () => false,
+});
+
+const createPointerEvent = (
+  type: string,
+  options: Partial<PointerEventInit> = {},
+) =>
+  new PointerEvent(type, {
+    bubbles: true,
+    cancelable: true,
+    pointerType: "mouse",
+    pointerId: 1,
+    isPrimary: true,
+    button: 0,
+    ...options,
+  });
+
+// Lay items out in a column by their current position in the DOM.
+const mockListLayout = () =>
+  vi
+    .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+    .mockImplementation(function (this: HTMLElement) {
+      const index =
+        this.tagName === "LI"
+          ? Array.from(this.parentElement?.children ?? []).indexOf(this)
+          : 0;
+      const top = index * itemHeight;
+
+      return {
+        x: 0,
+        y: top,
+        top,
+        left: 0,
+        right: 100,
+        bottom: top + itemHeight,
+        width: 100,
+        height: itemHeight,
+        toJSON: () => ({}),
+      } as DOMRect;
+    });
+
+describe("Reorder", () => {
+  beforeEach(() => {
+    mockListLayout();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("renders a list of layout-animated, draggable items", () => {
+    render(() => (
+      <Reorder.Group data-testid="group" values={[1]} onReorder={() => {}}>
+        <Reorder.Item data-testid="item" value={1} />
+      </Reorder.Group>
+    ));
+
+    const group = screen.getByTestId("group");
+    const item = screen.getByTestId("item");
+
+    expect(group.tagName).toBe("UL");
+    expect(item.tagName).toBe("LI");
+
+    const visualElement = visualElementStore.get(item);
+    expect(visualElement?.projection?.options.layout).toBe(true);
+    expect(visualElement?.getProps().drag).toBe("y");
+    expect(visualElement?.getProps().dragSnapToOrigin).toBe(true);
+  });
+
+  it("renders the elements passed to as", () => {
+    render(() => (
+      <Reorder.Group
+        as="div"
+        data-testid="group"
+        axis="x"
+        values={[1]}
+        onReorder={() => {}}
+      >
+        <Reorder.Item as="span" data-testid="item" value={1} />
+      </Reorder.Group>
+    ));
+
+    const item = screen.getByTestId("item");
+
+    expect(screen.getByTestId("group").tagName).toBe("DIV");
+    expect(item.tagName).toBe("SPAN");
+    expect(visualElementStore.get(item)?.getProps().drag).toBe("x");
+  });
+
+  it("keeps item elements when values are reordered", async () => {
+    const [items, setItems] = createSignal(["a", "b", "c"]);
+
+    render(() => (
+      <Reorder.Group values={items()} onReorder={setItems}>
+        <For each={items()}>
+          {(item) => (
+            <Reorder.Item data-testid={item} value={item}>
+              {item}
+            </Reorder.Item>
+          )}
+        </For>
+      </Reorder.Group>
+    ));
+
+    await vi.advanceTimersByTimeAsync(20);
+
+    const [a, b, c] = ["a", "b", "c"].map((id) => screen.getByTestId(id));
+
+    setItems(["c", "a", "b"]);
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(screen.getByTestId("a")).toBe(a);
+    expect(screen.getByTestId("b")).toBe(b);
+    expect(screen.getByTestId("c")).toBe(c);
+    expect(Array.from(a!.parentElement!.children)).toEqual([c, a, b]);
+
+    // Let the layout animations finish before the next test.
+    await vi.advanceTimersByTimeAsync(1000);
+  });
+
+  it("calls onReorder once an item is dragged past the center of its sibling", async () => {
+    const [items, setItems] = createSignal(["a", "b", "c"]);
+    const onReorder = vi.fn(setItems);
+
+    render(() => (
+      <Reorder.Group values={items()} onReorder={onReorder}>
+        <For each={items()}>
+          {(item) => <Reorder.Item data-testid={item} value={item} />}
+        </For>
+      </Reorder.Group>
+    ));
+
+    await vi.advanceTimersByTimeAsync(20);
+
+    const item = screen.getByTestId("a");
+    item.dispatchEvent(
+      createPointerEvent("pointerdown", { clientX: 50, clientY: 25 }),
+    );
+    await vi.advanceTimersByTimeAsync(20);
+
+    item.dispatchEvent(
+      createPointerEvent("pointermove", { clientX: 50, clientY: 40 }),
+    );
+    await vi.advanceTimersByTimeAsync(20);
+    expect(onReorder).not.toHaveBeenCalled();
+
+    item.dispatchEvent(
+      createPointerEvent("pointermove", { clientX: 50, clientY: 60 }),
+    );
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(onReorder).toHaveBeenCalledTimes(1);
+    expect(onReorder).toHaveBeenCalledWith(["b", "a", "c"]);
+    expect(item.parentElement?.children[1]).toBe(item);
+
+    item.dispatchEvent(
+      createPointerEvent("pointerup", { clientX: 50, clientY: 60 }),
+    );
+  });
+
+  describe("checkReorder", () => {
+    const order = [
+      { value: "a", layout: { min: 0, max: 50 } },
+      { value: "b", layout: { min: 50, max: 100 } },
+      { value: "c", layout: { min: 100, max: 150 } },
+    ];
+
+    it("moves an item past the center of the next item", () => {
+      expect(
+        checkReorder(order, "a", 30, 100).map(({ value }) => value),
+      ).toEqual(["b", "a", "c"]);
+      expect(
+        checkReorder(order, "c", -30, -100).map(({ value }) => value),
+      ).toEqual(["a", "c", "b"]);
+    });
+
+    it("keeps the order until the center is crossed or without velocity", () => {
+      expect(checkReorder(order, "a", 20, 100)).toBe(order);
+      expect(checkReorder(order, "a", 30, 0)).toBe(order);
+      expect(checkReorder(order, "c", 30, 100)).toBe(order);
+      expect(checkReorder(order, "d", 30, 100)).toBe(order);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { describe, it, expect } from "vitest";
+
+/**
+ * Bundle an app with `source`, against the package as it's published.
+ */
+const bundle = async (source: string) => {
+  const { stdout } = await promisify(execFile)(
+    process.execPath,
+    ["tests/utils/bundle.mjs", source],
+    { maxBuffer: 16 * 1024 * 1024 },
+  );
+  return stdout;
+};
+
+describe("tree shaking", () => {
+  it("leaves domMax out of apps that only use m and domAnimation", async () => {
+    const code = await bundle(`
+      import { m, LazyMotion, domAnimation } from "motion-solid";
+      console.log(m, LazyMotion, domAnimation);
+    `);
+
+    expect(code).toContain("HoverFeature");
+    expect(code).not.toContain("DragFeature");
+    expect(code).not.toContain("PinchFeature");
+    expect(code).not.toContain("DropZoneFeature");
+  }, 60_000);
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { render } from "@solidjs/testing-library";
+import { createSignal, Show } from "solid-js";
+import { createInView } from "../../src";
+
+class MockIntersectionObserver {
+  static instances: MockIntersectionObserver[] = [];
+
+  elements = new Set<Element>();
+  observe = vi.fn((element: Element) => this.elements.add(element));
+  unobserve = vi.fn((element: Element) => this.elements.delete(element));
+  disconnect = vi.fn(() => this.elements.clear());
+
+  constructor(
+    public callback: IntersectionObserverCallback,
+    public options: IntersectionObserverInit = {},
+  ) {
+    MockIntersectionObserver.instances.push(this);
+  }
+
+  trigger(target: Element, isIntersecting: boolean) {
+    this.callback(
+      [{ target, isIntersecting } as IntersectionObserverEntry],
+      this as unknown as IntersectionObserver,
+    );
+  }
+}
+
+const observerOf = (element: Element) =>
+  MockIntersectionObserver.instances.find((observer) =>
+    observer.elements.has(element),
+  )!;
+
+const originalIntersectionObserver = globalThis.IntersectionObserver;
+
+beforeEach(() => {
+  MockIntersectionObserver.instances = [];
+  globalThis.IntersectionObserver =
+    MockIntersectionObserver as unknown as typeof IntersectionObserver;
+});
+
+afterEach(() => {
+  globalThis.IntersectionObserver = originalIntersectionObserver;
+});
+
+describe("createInView", () => {
+  it("tracks whether an element is in view", () => {
+    let isInView!: () => boolean;
+    let element!: HTMLDivElement;
+
+    render(() => {
+      isInView = createInView(() => element, { margin: "10px", amount: 0.5 });
+      return <div ref={(el) => (element = el)} />;
+    });
+
+    const observer = observerOf(element);
+    expect(observer.options).toMatchObject({
+      rootMargin: "10px",
+      threshold: 0.5,
+    });
+    expect(isInView()).toBe(false);
+
+    observer.trigger(element, true);
+    expect(isInView()).toBe(true);
+
+    observer.trigger(element, false);
+    expect(isInView()).toBe(false);
+  });
+
+  it("shares observers between elements with the same options", () => {
+    let first!: HTMLDivElement;
+    let second!: HTMLDivElement;
+    let third!: HTMLDivElement;
+    let firstInView!: () => boolean;
+    let secondInView!: () => boolean;
+
+    render(() => {
+      firstInView = createInView(() => first);
+      secondInView = createInView(() => second);
+      createInView(() => third, { amount: "all" });
+      return (
+        <>
+          <div ref={(el) => (first = el)} />
+          <div ref={(el) => (second = el)} />
+          <div ref={(el) => (third = el)} />
+        </>
+      );
+    });
+
+    expect(MockIntersectionObserver.instances).toHaveLength(2);
+    expect(observerOf(first)).toBe(observerOf(second));
+
+    observerOf(first).trigger(second, true);
+    expect(firstInView()).toBe(false);
+    expect(secondInView()).toBe(true);
+  });
+
+  it("gives a second accessor on the same element its latest entry", () => {
+    const [showSecond, setShowSecond] = createSignal(false);
+    let element!: HTMLDivElement;
+    let firstInView!: () => boolean;
+    let secondInView!: () => boolean;
+    let onceInView!: () => boolean;
+
+    const Second = () => {
+      secondInView = createInView(() => element);
+      onceInView = createInView(() => element, { once: true });
+      return null;
+    };
+
+    render(() => {
+      firstInView = createInView(() => element);
+      return (
+        <>
+          <div ref={(el) => (element = el)} />
+          <Show when={showSecond()}>
+            <Second />
+          </Show>
+        </>
+      );
+    });
+
+    const observer = observerOf(element);
+    observer.trigger(element, true);
+    expect(firstInView()).toBe(true);
+
+    setShowSecond(true);
+    expect(secondInView()).toBe(true);
+    expect(onceInView()).toBe(true);
+    expect(observer.observe).toHaveBeenCalledTimes(1);
+
+    observer.trigger(element, false);
+    expect(firstInView()).toBe(false);
+    expect(secondInView()).toBe(false);
+    expect(onceInView()).toBe(true);
+  });
+
+  it("stops observing after entering the view with once", () => {
+    let isInView!: () => boolean;
+    let element!: HTMLDivElement;
+
+    render(() => {
+      isInView = createInView(() => element, { once: true });
+      return <div ref={(el) => (element = el)} />;
+    });
+
+    const observer = observerOf(element);
+    observer.trigger(element, true);
+
+    expect(isInView()).toBe(true);
+    expect(observer.unobserve).toHaveBeenCalledWith(element);
+    expect(observer.disconnect).toHaveBeenCalled();
+  });
+
+  it("follows element accessors and disconnects with the owner", () => {
+    const [show, setShow] = createSignal(true);
+    let element: HTMLDivElement | undefined;
+
+    const { unmount } = render(() => {
+      createInView(() => (show() ? element : undefined));
+      return (
+        <Show when={show()}>
+          <div ref={(el) => (element = el)} />
+        </Show>
+      );
+    });
+
+    const observer = observerOf(element!);
+    setShow(false);
+    expect(observer.unobserve).toHaveBeenCalledWith(element);
+
+    setShow(true);
+    const next = observerOf(element!);
+    expect(next).toBeDefined();
+
+    unmount();
+    expect(next.disconnect).toHaveBeenCalled();
+  });
+});
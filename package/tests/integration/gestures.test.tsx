@@ -1,7 +1,14 @@
 import { describe, it, expect, vi } from "vitest";
 import { render, screen, fireEvent } from "@solidjs/testing-library";
 import { createSignal } from "solid-js";
-import { motion } from "../../src";
+import { createDragControls, createGestureState, motion } from "../../src";
+
+// jsdom doesn't implement pointer capture.
+Object.assign(Element.prototype, {
+  setPointerCapture: () => {},
+  releasePointerCapture: () => {},
+  hasPointerCapture: () => false,
+});
 
 // Helper to create pointer events
 function createPointerEvent(
@@ -108,6 +115,242 @@ describe("gestures", () => {
     });
   });
 
+  describe("hover intent", () => {
+    const enter = (element: HTMLElement, pointerType = "mouse") =>
+      element.dispatchEvent(
+        createPointerEvent("pointerenter", { pointerType }),
+      );
+    const leave = (element: HTMLElement) =>
+      element.dispatchEvent(
+        createPointerEvent("pointerleave", { pointerType: "mouse" }),
+      );
+
+    it("starts the hover once the pointer rests for the enter delay", async () => {
+      const onHoverStart = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          initial={{ x: 0 }}
+          whileHover={{ x: 10 }}
+          transition={{ duration: 0 }}
+          hoverDelay={{ enter: 200 }}
+          onHoverStart={onHoverStart}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      await settleInitialMotionFrame();
+
+      // Sweeping across doesn't start a hover.
+      enter(element);
+      await vi.advanceTimersByTimeAsync(100);
+      leave(element);
+      await vi.advanceTimersByTimeAsync(300);
+      expect(onHoverStart).not.toHaveBeenCalled();
+      expect(element.style.transform).toBe("none");
+
+      enter(element);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(element.style.transform).toBe("none");
+      await vi.advanceTimersByTimeAsync(150);
+      expect(onHoverStart).toHaveBeenCalledTimes(1);
+      expect(element.style.transform).toBe("translateX(10px)");
+    });
+
+    it("keeps the hover through the leave delay", async () => {
+      const onHoverEnd = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          initial={{ x: 0 }}
+          whileHover={{ x: 10 }}
+          transition={{ duration: 0 }}
+          hoverDelay={{ leave: 200 }}
+          onHoverEnd={onHoverEnd}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      await settleInitialMotionFrame();
+
+      enter(element);
+      await vi.advanceTimersByTimeAsync(50);
+      leave(element);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(element.style.transform).toBe("translateX(10px)");
+
+      // Coming back keeps the hover going.
+      enter(element);
+      await vi.advanceTimersByTimeAsync(300);
+      expect(onHoverEnd).not.toHaveBeenCalled();
+
+      leave(element);
+      await vi.advanceTimersByTimeAsync(250);
+      expect(onHoverEnd).toHaveBeenCalledTimes(1);
+      expect(element.style.transform).toBe("none");
+    });
+
+    it("ignores pointer types outside hoverPointerTypes", async () => {
+      const onHoverStart = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          hoverPointerTypes={["mouse"]}
+          onHoverStart={onHoverStart}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+
+      enter(element, "pen");
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onHoverStart).not.toHaveBeenCalled();
+
+      leave(element);
+      enter(element, "mouse");
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onHoverStart).toHaveBeenCalledTimes(1);
+    });
+
+    it("ends the hover on scroll with hoverCancelOnScroll", async () => {
+      const onHoverStart = vi.fn();
+      const onHoverEnd = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          hoverCancelOnScroll
+          onHoverStart={onHoverStart}
+          onHoverEnd={onHoverEnd}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+
+      enter(element);
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onHoverStart).toHaveBeenCalledTimes(1);
+
+      window.dispatchEvent(new Event("scroll"));
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onHoverEnd).toHaveBeenCalledTimes(1);
+
+      leave(element);
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onHoverEnd).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("gesture state", () => {
+    it("exposes hover, press and focus as accessors", () => {
+      const gestures = createGestureState();
+
+      render(() => (
+        <>
+          <motion.button data-testid="target" gestureState={gestures} />
+          <span data-testid="label">
+            {[
+              gestures.isHovered() && "hovered",
+              gestures.isPressed() && "pressed",
+              gestures.isFocused() && "focused",
+            ]
+              .filter(Boolean)
+              .join(" ")}
+          </span>
+        </>
+      ));
+
+      const element = screen.getByTestId("target");
+      const label = screen.getByTestId("label");
+      mockFocusVisible(element);
+
+      element.dispatchEvent(createPointerEvent("pointerenter"));
+      expect(label.textContent).toBe("hovered");
+
+      element.dispatchEvent(createPointerEvent("pointerdown"));
+      expect(label.textContent).toBe("hovered pressed");
+
+      element.dispatchEvent(createPointerEvent("pointerup"));
+      element.dispatchEvent(createPointerEvent("pointerleave"));
+      fireEvent.focus(element);
+      expect(label.textContent).toBe("focused");
+
+      fireEvent.blur(element);
+      expect(label.textContent).toBe("");
+    });
+
+    it("tracks dragging", async () => {
+      const gestures = createGestureState();
+
+      render(() => (
+        <motion.div data-testid="target" drag gestureState={gestures} />
+      ));
+
+      const element = screen.getByTestId("target");
+      const pointer = (type: string) =>
+        createPointerEvent(type, { pointerId: 1, isPrimary: true, button: 0 });
+
+      element.dispatchEvent(pointer("pointerdown"));
+      expect(gestures.isDragging()).toBe(true);
+
+      element.dispatchEvent(pointer("pointerup"));
+      expect(gestures.isDragging()).toBe(false);
+      await vi.advanceTimersByTimeAsync(50);
+    });
+
+    it("doesn't make the element focusable or pressable", () => {
+      const gestures = createGestureState();
+
+      render(() => <motion.div data-testid="target" gestureState={gestures} />);
+
+      const element = screen.getByTestId("target");
+      expect(element.hasAttribute("tabindex")).toBe(false);
+
+      element.focus();
+      fireEvent.keyDown(element, { key: "Enter" });
+      expect(gestures.isPressed()).toBe(false);
+
+      element.dispatchEvent(createPointerEvent("pointerdown"));
+      expect(gestures.isPressed()).toBe(true);
+
+      window.dispatchEvent(createPointerEvent("pointerup"));
+      expect(gestures.isPressed()).toBe(false);
+    });
+
+    it.each([
+      ["only gestureState", {}],
+      ["whileHover and whileTap", { whileHover: {}, whileTap: {} }],
+    ])("resets when unmounted mid-gesture with %s", (_, props) => {
+      const gestures = createGestureState();
+      const [show, setShow] = createSignal(true);
+
+      render(() => (
+        <>
+          {show() && (
+            <motion.div
+              data-testid="target"
+              gestureState={gestures}
+              {...props}
+            />
+          )}
+        </>
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(createPointerEvent("pointerenter"));
+      element.dispatchEvent(createPointerEvent("pointerdown"));
+      expect(gestures.isHovered()).toBe(true);
+      expect(gestures.isPressed()).toBe(true);
+
+      setShow(false);
+      expect(gestures.isHovered()).toBe(false);
+      expect(gestures.isPressed()).toBe(false);
+    });
+  });
+
   describe("whileTap", () => {
     it("activates on pointerdown", async () => {
       render(() => (
@@ -405,163 +648,1398 @@ describe("gestures", () => {
     });
   });
 
-  describe("globalTapTarget", () => {
-    it("detects tap on document when globalTapTarget is true", async () => {
-      const onTapStart = vi.fn();
-
-      render(() => (
-        <motion.div
-          data-testid="target"
-          globalTapTarget
-          onTapStart={onTapStart}
-        />
-      ));
-
-      // Tap on document instead of element
-      document.dispatchEvent(
-        createPointerEvent("pointerdown", { clientX: 500, clientY: 500 }),
+  describe("long press", () => {
+    const press = async (element: HTMLElement, holdFor: number) => {
+      element.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 10, clientY: 10 }),
+      );
+      await vi.advanceTimersByTimeAsync(holdFor);
+      element.dispatchEvent(
+        createPointerEvent("pointerup", { clientX: 10, clientY: 10 }),
       );
       await vi.advanceTimersByTimeAsync(50);
+    };
 
-      expect(onTapStart).toHaveBeenCalled();
-    });
-
-    it("treats global tap as success on pointerup", async () => {
+    it("recognises a held press and cancels the tap", async () => {
+      const onLongPressStart = vi.fn();
+      const onLongPress = vi.fn();
       const onTap = vi.fn();
       const onTapCancel = vi.fn();
 
       render(() => (
         <motion.div
           data-testid="target"
-          globalTapTarget
+          onLongPressStart={onLongPressStart}
+          onLongPress={onLongPress}
           onTap={onTap}
           onTapCancel={onTapCancel}
         />
       ));
 
-      document.dispatchEvent(
-        createPointerEvent("pointerdown", { clientX: 500, clientY: 500 }),
-      );
-      await vi.advanceTimersByTimeAsync(50);
-
-      document.dispatchEvent(
-        createPointerEvent("pointerup", { clientX: 800, clientY: 800 }),
-      );
-      await vi.advanceTimersByTimeAsync(50);
-
-      expect(onTap).toHaveBeenCalled();
-      expect(onTapCancel).not.toHaveBeenCalled();
-    });
-  });
-
-  describe("pan gestures", () => {
-    it("calls onPanStart when pan begins", async () => {
-      const onPanStart = vi.fn();
-
-      render(() => <motion.div data-testid="target" onPanStart={onPanStart} />);
-
       const element = screen.getByTestId("target");
       element.dispatchEvent(
-        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+        createPointerEvent("pointerdown", { clientX: 10, clientY: 10 }),
       );
-      await vi.advanceTimersByTimeAsync(50);
+      await vi.advanceTimersByTimeAsync(400);
+      expect(onLongPressStart).not.toHaveBeenCalled();
 
-      document.dispatchEvent(
-        createPointerEvent("pointermove", { clientX: 10, clientY: 10 }),
+      await vi.advanceTimersByTimeAsync(200);
+      expect(onLongPressStart).toHaveBeenCalledTimes(1);
+      expect(onLongPress).not.toHaveBeenCalled();
+
+      element.dispatchEvent(
+        createPointerEvent("pointerup", { clientX: 10, clientY: 10 }),
       );
       await vi.advanceTimersByTimeAsync(50);
 
-      expect(onPanStart).toHaveBeenCalled();
+      expect(onLongPress).toHaveBeenCalledTimes(1);
+      expect(onTap).not.toHaveBeenCalled();
+      expect(onTapCancel).toHaveBeenCalledTimes(1);
     });
 
-    it("calls onPan during pan", async () => {
-      const onPan = vi.fn();
-
-      render(() => <motion.div data-testid="target" onPan={onPan} />);
+    it("calls onTap for presses shorter than longPressDelay", async () => {
+      const onLongPress = vi.fn();
+      const onTap = vi.fn();
 
-      const element = screen.getByTestId("target");
-      element.dispatchEvent(
-        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
-      );
-      await vi.advanceTimersByTimeAsync(50);
+      render(() => (
+        <motion.div
+          data-testid="target"
+          longPressDelay={1000}
+          onLongPress={onLongPress}
+          onTap={onTap}
+        />
+      ));
 
-      document.dispatchEvent(
-        createPointerEvent("pointermove", { clientX: 20, clientY: 20 }),
-      );
-      await vi.advanceTimersByTimeAsync(50);
+      await press(screen.getByTestId("target"), 800);
 
-      expect(onPan).toHaveBeenCalled();
+      expect(onLongPress).not.toHaveBeenCalled();
+      expect(onTap).toHaveBeenCalledTimes(1);
     });
 
-    it("calls onPanEnd when pan ends", async () => {
-      const onPanEnd = vi.fn();
+    it("cancels when the pointer moves past longPressTolerance", async () => {
+      const onLongPressStart = vi.fn();
 
-      render(() => <motion.div data-testid="target" onPanEnd={onPanEnd} />);
+      render(() => (
+        <motion.div
+          data-testid="target"
+          longPressTolerance={5}
+          onLongPressStart={onLongPressStart}
+        />
+      ));
 
       const element = screen.getByTestId("target");
       element.dispatchEvent(
-        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+        createPointerEvent("pointerdown", { clientX: 10, clientY: 10 }),
       );
-      await vi.advanceTimersByTimeAsync(50);
-
       document.dispatchEvent(
-        createPointerEvent("pointermove", { clientX: 50, clientY: 50 }),
+        createPointerEvent("pointermove", { clientX: 13, clientY: 13 }),
       );
-      await vi.advanceTimersByTimeAsync(50);
-
+      await vi.advanceTimersByTimeAsync(100);
       document.dispatchEvent(
-        createPointerEvent("pointerup", { clientX: 50, clientY: 50 }),
+        createPointerEvent("pointermove", { clientX: 20, clientY: 10 }),
       );
-      await vi.advanceTimersByTimeAsync(50);
+      await vi.advanceTimersByTimeAsync(600);
 
-      expect(onPanEnd).toHaveBeenCalled();
+      expect(onLongPressStart).not.toHaveBeenCalled();
     });
 
-    it("pan info includes offset and delta", async () => {
-      let panInfo: any = null;
-
+    it("animates whileLongPress until release", async () => {
       render(() => (
         <motion.div
           data-testid="target"
-          onPan={(_, info) => {
-            panInfo = info;
-          }}
+          initial={{ x: 0 }}
+          whileLongPress={{ x: 50 }}
+          transition={{ duration: 0.1 }}
         />
       ));
 
       const element = screen.getByTestId("target");
-      element.dispatchEvent(
-        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
-      );
-      await vi.advanceTimersByTimeAsync(50);
+      element.dispatchEvent(createPointerEvent("pointerdown"));
+      await vi.advanceTimersByTimeAsync(300);
+      expect(element.style.transform).toBe("none");
 
-      document.dispatchEvent(
-        createPointerEvent("pointermove", { clientX: 30, clientY: 40 }),
-      );
-      await vi.advanceTimersByTimeAsync(50);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(element.style.transform).toBe("translateX(50px)");
 
-      expect(panInfo).toHaveProperty("offset");
-      expect(panInfo).toHaveProperty("delta");
-      expect(panInfo).toHaveProperty("point");
+      element.dispatchEvent(createPointerEvent("pointerup"));
+      await vi.advanceTimersByTimeAsync(300);
+      expect(element.style.transform).toBe("none");
     });
 
-    it("calls onPanSessionStart at beginning of session", async () => {
-      const onPanSessionStart = vi.fn();
+    it.each(["Enter", " "])("works when holding %j", async (key) => {
+      const onLongPress = vi.fn();
+      const onTap = vi.fn();
 
       render(() => (
         <motion.div
           data-testid="target"
-          onPanSessionStart={onPanSessionStart}
+          onLongPress={onLongPress}
+          onTap={onTap}
         />
       ));
 
       const element = screen.getByTestId("target");
-      element.dispatchEvent(
-        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
-      );
+      element.focus();
+      fireEvent.keyDown(element, { key });
+      await vi.advanceTimersByTimeAsync(300);
+      fireEvent.keyDown(element, { key, repeat: true });
+      await vi.advanceTimersByTimeAsync(300);
+      fireEvent.keyUp(element, { key });
       await vi.advanceTimersByTimeAsync(50);
 
-      expect(onPanSessionStart).toHaveBeenCalled();
+      expect(onLongPress).toHaveBeenCalledTimes(1);
+      expect(onTap).not.toHaveBeenCalled();
+
+      fireEvent.keyDown(element, { key });
+      fireEvent.keyUp(element, { key });
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onTap).toHaveBeenCalledTimes(1);
+    });
+
+    it("prevents Space from scrolling the page", async () => {
+      const onTap = vi.fn();
+
+      render(() => (
+        <motion.div data-testid="target" onLongPress={() => {}} onTap={onTap} />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.focus();
+
+      expect(fireEvent.keyDown(element, { key: " " })).toBe(false);
+      expect(fireEvent.keyUp(element, { key: " " })).toBe(false);
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onTap).toHaveBeenCalledTimes(1);
+    });
+
+    it("leaves Space alone without long press props", async () => {
+      const onTap = vi.fn();
+
+      render(() => <motion.div data-testid="target" onTap={onTap} />);
+
+      const element = screen.getByTestId("target");
+      element.focus();
+
+      expect(fireEvent.keyDown(element, { key: " " })).toBe(true);
+      expect(fireEvent.keyUp(element, { key: " " })).toBe(true);
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onTap).not.toHaveBeenCalled();
+    });
+
+    it("lets inputs type spaces", async () => {
+      render(() => (
+        <motion.input
+          data-testid="target"
+          whileTap={{ scale: 0.9 }}
+          onLongPress={() => {}}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.focus();
+
+      expect(fireEvent.keyDown(element, { key: " " })).toBe(true);
+      expect(fireEvent.keyUp(element, { key: " " })).toBe(true);
+    });
+
+    it("leaves Space to activate buttons natively", async () => {
+      const onLongPressStart = vi.fn();
+
+      render(() => (
+        <motion.button
+          data-testid="target"
+          onTap={() => {}}
+          onLongPressStart={onLongPressStart}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.focus();
+
+      expect(fireEvent.keyDown(element, { key: " " })).toBe(true);
+      await vi.advanceTimersByTimeAsync(600);
+      expect(fireEvent.keyUp(element, { key: " " })).toBe(true);
+
+      expect(onLongPressStart).not.toHaveBeenCalled();
+    });
+
+    it("ignores Space typed into a child input", async () => {
+      const onTap = vi.fn();
+
+      render(() => (
+        <motion.div onTap={onTap} onLongPress={() => {}}>
+          <input data-testid="input" />
+        </motion.div>
+      ));
+
+      const input = screen.getByTestId("input");
+      input.focus();
+
+      expect(fireEvent.keyDown(input, { key: " " })).toBe(true);
+      fireEvent.keyUp(input, { key: " " });
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onTap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("globalTapTarget", () => {
+    it("detects tap on document when globalTapTarget is true", async () => {
+      const onTapStart = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          globalTapTarget
+          onTapStart={onTapStart}
+        />
+      ));
+
+      // Tap on document instead of element
+      document.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 500, clientY: 500 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onTapStart).toHaveBeenCalled();
+    });
+
+    it("treats global tap as success on pointerup", async () => {
+      const onTap = vi.fn();
+      const onTapCancel = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          globalTapTarget
+          onTap={onTap}
+          onTapCancel={onTapCancel}
+        />
+      ));
+
+      document.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 500, clientY: 500 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      document.dispatchEvent(
+        createPointerEvent("pointerup", { clientX: 800, clientY: 800 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onTap).toHaveBeenCalled();
+      expect(onTapCancel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pan gestures", () => {
+    it("calls onPanStart when pan begins", async () => {
+      const onPanStart = vi.fn();
+
+      render(() => <motion.div data-testid="target" onPanStart={onPanStart} />);
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      document.dispatchEvent(
+        createPointerEvent("pointermove", { clientX: 10, clientY: 10 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onPanStart).toHaveBeenCalled();
+    });
+
+    it("calls onPan during pan", async () => {
+      const onPan = vi.fn();
+
+      render(() => <motion.div data-testid="target" onPan={onPan} />);
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      document.dispatchEvent(
+        createPointerEvent("pointermove", { clientX: 20, clientY: 20 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onPan).toHaveBeenCalled();
+    });
+
+    it("calls onPanEnd when pan ends", async () => {
+      const onPanEnd = vi.fn();
+
+      render(() => <motion.div data-testid="target" onPanEnd={onPanEnd} />);
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      document.dispatchEvent(
+        createPointerEvent("pointermove", { clientX: 50, clientY: 50 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      document.dispatchEvent(
+        createPointerEvent("pointerup", { clientX: 50, clientY: 50 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onPanEnd).toHaveBeenCalled();
+    });
+
+    it("pan info includes offset and delta", async () => {
+      let panInfo: any = null;
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          onPan={(_, info) => {
+            panInfo = info;
+          }}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      document.dispatchEvent(
+        createPointerEvent("pointermove", { clientX: 30, clientY: 40 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(panInfo).toHaveProperty("offset");
+      expect(panInfo).toHaveProperty("delta");
+      expect(panInfo).toHaveProperty("point");
+    });
+
+    it("calls onPanSessionStart at beginning of session", async () => {
+      const onPanSessionStart = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          onPanSessionStart={onPanSessionStart}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+      );
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onPanSessionStart).toHaveBeenCalled();
+    });
+  });
+
+  describe("keyboard drag", () => {
+    const pressKey = async (
+      element: HTMLElement,
+      key: string,
+      options: { shiftKey?: boolean } = {},
+    ) => {
+      fireEvent.keyDown(element, { key, ...options });
+      fireEvent.keyUp(element, { key, ...options });
+      await vi.advanceTimersByTimeAsync(50);
+    };
+
+    it("moves a focusable draggable by a step per arrow key", async () => {
+      const onDragStart = vi.fn();
+      const onDrag = vi.fn();
+      const onDragEnd = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag
+          dragKeyboard
+          onDragStart={onDragStart}
+          onDrag={onDrag}
+          onDragEnd={onDragEnd}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      expect(element.tabIndex).toBe(0);
+
+      await pressKey(element, "ArrowRight");
+      expect(element.style.transform).toBe("translateX(10px)");
+      expect(onDragStart).toHaveBeenCalledWith(
+        expect.any(KeyboardEvent),
+        expect.objectContaining({ offset: { x: 0, y: 0 } }),
+      );
+      expect(onDrag).toHaveBeenCalledWith(
+        expect.any(KeyboardEvent),
+        expect.objectContaining({ offset: { x: 10, y: 0 } }),
+      );
+      expect(onDragEnd).toHaveBeenCalledTimes(1);
+
+      await pressKey(element, "ArrowDown", { shiftKey: true });
+      expect(element.style.transform).toBe("translateX(10px) translateY(50px)");
+    });
+
+    it("keeps to the drag axis and dragConstraints", async () => {
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag="x"
+          dragKeyboard={{ step: 15 }}
+          dragConstraints={{ left: -20, right: 20 }}
+          dragElastic={false}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      await pressKey(element, "ArrowDown");
+      expect(element.style.transform).toBe("");
+
+      fireEvent.keyDown(element, { key: "ArrowLeft" });
+      fireEvent.keyDown(element, { key: "ArrowLeft", repeat: true });
+      await vi.advanceTimersByTimeAsync(50);
+      expect(element.style.transform).toBe("translateX(-20px)");
+      fireEvent.keyUp(element, { key: "ArrowLeft" });
+    });
+
+    it("ignores arrow keys without dragKeyboard", async () => {
+      render(() => <motion.div data-testid="target" drag />);
+
+      const element = screen.getByTestId("target");
+      await pressKey(element, "ArrowRight");
+
+      expect(element.style.transform).toBe("");
+    });
+
+    it("announces keyboard drags in a live region", async () => {
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag
+          dragKeyboard={{
+            announcements: {
+              onDragStart: () => "Picked up",
+              onDrag: ({ offset }) => `Moved to ${offset.x}, ${offset.y}`,
+              onDragEnd: ({ offset }) => `Dropped at ${offset.x}, ${offset.y}`,
+            },
+          }}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      fireEvent.keyDown(element, { key: "ArrowLeft" });
+
+      const region = screen.getByRole("status");
+      expect(region).toHaveAttribute("aria-live", "polite");
+      expect(region).toHaveTextContent("Moved to -10, 0");
+
+      fireEvent.keyUp(element, { key: "ArrowLeft" });
+      expect(region).toHaveTextContent("Dropped at -10, 0");
+    });
+  });
+
+  describe("drag activation", () => {
+    const pointer = (
+      type: string,
+      clientX: number,
+      options: Partial<PointerEventInit> = {},
+    ) =>
+      createPointerEvent(type, {
+        pointerId: 1,
+        isPrimary: true,
+        button: 0,
+        clientX,
+        clientY: 0,
+        ...options,
+      });
+
+    it("waits for the pointer to move past the activation distance", async () => {
+      const onDragStart = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag="x"
+          dragActivationConstraint={{ distance: 20 }}
+          onDragStart={onDragStart}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(pointer("pointerdown", 0));
+      element.dispatchEvent(pointer("pointermove", 10));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onDragStart).not.toHaveBeenCalled();
+      expect(element.style.transform).toBe("");
+
+      element.dispatchEvent(pointer("pointermove", 30));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+      expect(element.style.transform).toBe("translateX(30px)");
+
+      element.dispatchEvent(pointer("pointerup", 30));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+
+    it("lets clicks on children through without dragging", async () => {
+      const onDragStart = vi.fn();
+      const onClick = vi.fn();
+
+      render(() => (
+        <motion.div
+          drag
+          dragActivationConstraint={{ distance: 5 }}
+          onDragStart={onDragStart}
+        >
+          <button data-testid="button" onClick={onClick} />
+        </motion.div>
+      ));
+
+      const button = screen.getByTestId("button");
+      button.dispatchEvent(pointer("pointerdown", 0));
+      button.dispatchEvent(pointer("pointermove", 2));
+      button.dispatchEvent(pointer("pointerup", 2));
+      fireEvent.click(button);
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onDragStart).not.toHaveBeenCalled();
+      expect(onClick).toHaveBeenCalledTimes(1);
+    });
+
+    it("applies per-pointer-type delays with a tolerance", async () => {
+      const onDragStart = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag="x"
+          dragActivationConstraint={{ touch: { delay: 200, tolerance: 5 } }}
+          onDragStart={onDragStart}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      const touch = { pointerType: "touch" };
+
+      // Moving past the tolerance before the delay abandons the drag.
+      element.dispatchEvent(pointer("pointerdown", 0, touch));
+      element.dispatchEvent(pointer("pointermove", 10, touch));
+      await vi.advanceTimersByTimeAsync(300);
+      expect(onDragStart).not.toHaveBeenCalled();
+      element.dispatchEvent(pointer("pointerup", 10, touch));
+
+      element.dispatchEvent(pointer("pointerdown", 0, touch));
+      element.dispatchEvent(pointer("pointermove", 3, touch));
+      await vi.advanceTimersByTimeAsync(300);
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+
+      element.dispatchEvent(pointer("pointermove", 40, touch));
+      await vi.advanceTimersByTimeAsync(50);
+      expect(element.style.transform).toBe("translateX(40px)");
+      element.dispatchEvent(pointer("pointerup", 40, touch));
+      await vi.advanceTimersByTimeAsync(50);
+
+      // Mouse drags still start straight away.
+      element.dispatchEvent(pointer("pointerdown", 0));
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onDragStart).toHaveBeenCalledTimes(2);
+      element.dispatchEvent(pointer("pointerup", 0));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+
+    it("supports distanceThreshold in drag controls", async () => {
+      const controls = createDragControls();
+      const onDragStart = vi.fn();
+
+      render(() => (
+        <div
+          data-testid="handle"
+          onPointerDown={(event) =>
+            controls.start(event, { distanceThreshold: 20 })
+          }
+        >
+          <motion.div
+            data-testid="target"
+            drag
+            dragControls={controls}
+            dragListener={false}
+            onDragStart={onDragStart}
+          />
+        </div>
+      ));
+
+      const handle = screen.getByTestId("handle");
+      handle.dispatchEvent(pointer("pointerdown", 0));
+      handle.dispatchEvent(pointer("pointermove", 10));
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onDragStart).not.toHaveBeenCalled();
+
+      handle.dispatchEvent(pointer("pointermove", 25));
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+
+      // Pointer capture sends the rest of the drag to the dragged element.
+      screen.getByTestId("target").dispatchEvent(pointer("pointerup", 25));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+  });
+
+  describe("drag snap points", () => {
+    const pointer = (type: string, clientX: number) =>
+      createPointerEvent(type, {
+        pointerId: 1,
+        isPrimary: true,
+        button: 0,
+        clientX,
+        clientY: 0,
+      });
+
+    it("springs to the snap point momentum projects to", async () => {
+      const onSnap = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag="x"
+          dragSnapPoints={[{ x: 0 }, { x: 100 }, { x: 200 }]}
+          onSnap={onSnap}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(pointer("pointerdown", 0));
+      await vi.advanceTimersByTimeAsync(16);
+      element.dispatchEvent(pointer("pointermove", 30));
+      element.dispatchEvent(pointer("pointerup", 30));
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(element.style.transform).toBe("translateX(200px)");
+      expect(onSnap).toHaveBeenCalledWith(2);
+    });
+
+    it("snaps to the nearest point without momentum", async () => {
+      const onSnap = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag="x"
+          dragMomentum={false}
+          dragSnapPoints={{ x: [0, 100, 200] }}
+          onSnap={onSnap}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(pointer("pointerdown", 0));
+      await vi.advanceTimersByTimeAsync(16);
+      element.dispatchEvent(pointer("pointermove", 70));
+      element.dispatchEvent(pointer("pointerup", 70));
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(element.style.transform).toBe("translateX(100px)");
+      expect(onSnap).toHaveBeenCalledWith(1);
+    });
+
+    it("ignores snap points outside dragConstraints", async () => {
+      const onSnap = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag="x"
+          dragConstraints={{ left: 0, right: 150 }}
+          dragSnapPoints={[{ x: 0 }, { x: 100 }, { x: 200 }]}
+          onSnap={onSnap}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(pointer("pointerdown", 0));
+      await vi.advanceTimersByTimeAsync(16);
+      element.dispatchEvent(pointer("pointermove", 30));
+      element.dispatchEvent(pointer("pointerup", 30));
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(element.style.transform).toBe("translateX(100px)");
+      expect(onSnap).toHaveBeenCalledWith(1);
+    });
+
+    it("snaps with the spring options in dragTransition", async () => {
+      const onSnap = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag="x"
+          dragMomentum={false}
+          dragTransition={{ stiffness: 10, damping: 100 }}
+          dragSnapPoints={{ x: [0, 100] }}
+          onSnap={onSnap}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(pointer("pointerdown", 0));
+      await vi.advanceTimersByTimeAsync(16);
+      element.dispatchEvent(pointer("pointermove", 70));
+      element.dispatchEvent(pointer("pointerup", 70));
+      await vi.advanceTimersByTimeAsync(500);
+
+      // The default snap spring would have settled by now.
+      const x = parseFloat(
+        /translateX\(([\d.]+)px\)/.exec(element.style.transform)![1]!,
+      );
+      expect(x).toBeGreaterThan(70);
+      expect(x).toBeLessThan(90);
+      expect(onSnap).not.toHaveBeenCalled();
+    });
+
+    it("resolves snap points from the element box", async () => {
+      const onSnap = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          drag="y"
+          dragKeyboard={{ step: 200 }}
+          dragSnapPoints={(box) => ({ y: [0, box.y.max - box.y.min] })}
+          onSnap={onSnap}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      vi.spyOn(element, "getBoundingClientRect").mockReturnValue({
+        left: 0,
+        right: 100,
+        top: 0,
+        bottom: 300,
+        width: 100,
+        height: 300,
+      } as DOMRect);
+
+      fireEvent.keyDown(element, { key: "ArrowDown" });
+      fireEvent.keyUp(element, { key: "ArrowDown" });
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(element.style.transform).toBe("translateY(300px)");
+      expect(onSnap).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe("drag auto-scroll", () => {
+    const pointer = (type: string, clientY: number) =>
+      createPointerEvent(type, {
+        pointerId: 1,
+        isPrimary: true,
+        button: 0,
+        clientX: 100,
+        clientY,
+      });
+
+    const mockContainer = (container: HTMLElement) => {
+      vi.spyOn(container, "getBoundingClientRect").mockReturnValue({
+        left: 0,
+        right: 200,
+        top: 0,
+        bottom: 200,
+        width: 200,
+        height: 200,
+      } as DOMRect);
+      Object.defineProperty(container, "scrollHeight", { value: 1000 });
+      Object.defineProperty(container, "clientHeight", { value: 200 });
+    };
+
+    it("scrolls the nearest scrollable ancestor near its edge", async () => {
+      render(() => (
+        <div data-testid="container" style={{ "overflow-y": "auto" }}>
+          <motion.div
+            data-testid="target"
+            drag="y"
+            dragAutoScroll={{ threshold: 50, maxSpeed: 1000 }}
+          />
+        </div>
+      ));
+
+      const container = screen.getByTestId("container");
+      const element = screen.getByTestId("target");
+      mockContainer(container);
+
+      element.dispatchEvent(pointer("pointerdown", 100));
+      element.dispatchEvent(pointer("pointermove", 190));
+      await vi.advanceTimersByTimeAsync(100);
+
+      const scrolled = container.scrollTop;
+      expect(scrolled).toBeGreaterThan(0);
+      expect(element.style.transform).toBe(`translateY(${90 + scrolled}px)`);
+
+      // Away from the edge, scrolling stops.
+      element.dispatchEvent(pointer("pointermove", 100));
+      await vi.advanceTimersByTimeAsync(100);
+      expect(container.scrollTop).toBe(scrolled);
+
+      element.dispatchEvent(pointer("pointerup", 100));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+
+    it("scrolls the given container towards the start edge", async () => {
+      let container!: HTMLDivElement;
+
+      render(() => (
+        <div ref={(el) => (container = el)}>
+          <motion.div
+            data-testid="target"
+            drag
+            dragAutoScroll={{ container }}
+          />
+        </div>
+      ));
+
+      const element = screen.getByTestId("target");
+      mockContainer(container);
+      container.scrollTop = 500;
+
+      element.dispatchEvent(pointer("pointerdown", 100));
+      element.dispatchEvent(pointer("pointermove", 10));
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(container.scrollTop).toBeLessThan(500);
+
+      element.dispatchEvent(pointer("pointerup", 10));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+  });
+
+  describe("drag in transformed ancestors", () => {
+    const pointer = (type: string, clientX: number, clientY = 0) =>
+      createPointerEvent(type, {
+        pointerId: 1,
+        isPrimary: true,
+        button: 0,
+        clientX,
+        clientY,
+      });
+
+    const drag = async (element: HTMLElement, x: number, y = 0) => {
+      element.dispatchEvent(pointer("pointerdown", 0));
+      element.dispatchEvent(pointer("pointermove", x, y));
+      await vi.advanceTimersByTimeAsync(50);
+    };
+
+    it("converts pointer movement into the scaled ancestor's units", async () => {
+      render(() => (
+        <div style={{ transform: "matrix(2, 0, 0, 2, 0, 0)" }}>
+          <motion.div data-testid="target" drag dragMomentum={false} />
+        </div>
+      ));
+
+      const element = screen.getByTestId("target");
+      await drag(element, 100, 60);
+
+      expect(element.style.transform).toBe("translateX(50px) translateY(30px)");
+
+      element.dispatchEvent(pointer("pointerup", 100, 60));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+
+    it("combines nested and rotated ancestors", async () => {
+      render(() => (
+        <div style={{ transform: "matrix(0, 1, -1, 0, 0, 0)" }}>
+          <div
+            style={{
+              transform:
+                "matrix3d(2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1)",
+            }}
+          >
+            <motion.div data-testid="target" drag dragMomentum={false} />
+          </div>
+        </div>
+      ));
+
+      const element = screen.getByTestId("target");
+      await drag(element, 100);
+
+      expect(element.style.transform).toBe("translateY(-50px)");
+
+      element.dispatchEvent(pointer("pointerup", 100));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+
+    it("converts element constraints", async () => {
+      let bounds!: HTMLDivElement;
+
+      render(() => (
+        <div
+          ref={(el) => (bounds = el)}
+          style={{ transform: "matrix(2, 0, 0, 2, 0, 0)" }}
+        >
+          <motion.div
+            data-testid="target"
+            drag="x"
+            dragConstraints={bounds}
+            dragElastic={0}
+            dragMomentum={false}
+          />
+        </div>
+      ));
+
+      const element = screen.getByTestId("target");
+      vi.spyOn(bounds, "getBoundingClientRect").mockReturnValue({
+        left: 0,
+        right: 400,
+        top: 0,
+        bottom: 400,
+      } as DOMRect);
+      vi.spyOn(element, "getBoundingClientRect").mockReturnValue({
+        left: 100,
+        right: 200,
+        top: 0,
+        bottom: 100,
+      } as DOMRect);
+
+      await drag(element, 400);
+
+      expect(element.style.transform).toBe("translateX(100px)");
+
+      element.dispatchEvent(pointer("pointerup", 400));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+  });
+
+  describe("SVG drag", () => {
+    const pointer = (type: string, clientX: number, clientY = 0) =>
+      createPointerEvent(type, {
+        pointerId: 1,
+        isPrimary: true,
+        button: 0,
+        clientX,
+        clientY,
+      });
+
+    // jsdom doesn't implement getScreenCTM, so mock a viewBox that doubles
+    // everything on screen.
+    const mockScreenCTM = (element: Element) =>
+      Object.assign(element, {
+        getScreenCTM: () => ({ a: 2, b: 0, c: 0, d: 2, e: 0, f: 0 }),
+      });
+
+    it("moves SVG elements in user units", async () => {
+      let group!: SVGGElement;
+
+      render(() => (
+        <svg viewBox="0 0 100 100">
+          <g ref={(el) => (group = el)}>
+            <motion.circle
+              data-testid="target"
+              r={10}
+              drag
+              dragMomentum={false}
+            />
+          </g>
+        </svg>
+      ));
+
+      mockScreenCTM(group);
+      const element = screen.getByTestId("target");
+
+      element.dispatchEvent(pointer("pointerdown", 0));
+      element.dispatchEvent(pointer("pointermove", 40, 20));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(element.style.transform).toBe("translateX(20px) translateY(10px)");
+
+      element.dispatchEvent(pointer("pointerup", 40, 20));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+
+    it("accepts constraints in user units", async () => {
+      let svg!: SVGSVGElement;
+
+      render(() => (
+        <svg ref={(el) => (svg = el)} viewBox="0 0 100 100">
+          <motion.circle
+            data-testid="target"
+            r={10}
+            drag="x"
+            dragConstraints={{ left: 0, right: 30 }}
+            dragElastic={0}
+            dragMomentum={false}
+          />
+        </svg>
+      ));
+
+      mockScreenCTM(svg);
+      const element = screen.getByTestId("target");
+
+      element.dispatchEvent(pointer("pointerdown", 0));
+      element.dispatchEvent(pointer("pointermove", 100));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(element.style.transform).toBe("translateX(30px)");
+
+      element.dispatchEvent(pointer("pointerup", 100));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+  });
+
+  describe("drop zones", () => {
+    const pointer = (type: string, clientX: number) =>
+      createPointerEvent(type, {
+        pointerId: 1,
+        isPrimary: true,
+        button: 0,
+        clientX,
+        clientY: 100,
+      });
+
+    const mockRect = (element: HTMLElement, left: number) =>
+      vi.spyOn(element, "getBoundingClientRect").mockReturnValue({
+        left,
+        right: left + 100,
+        top: 50,
+        bottom: 150,
+        width: 100,
+        height: 100,
+      } as DOMRect);
+
+    it("calls zone callbacks with the dragged element's data", async () => {
+      const onDropZoneEnter = vi.fn();
+      const onDropZoneLeave = vi.fn();
+      const onDropZoneDrop = vi.fn();
+      render(() => (
+        <>
+          <motion.div data-testid="target" drag dragData={{ id: "card" }} />
+          <motion.div
+            data-testid="zone"
+            dropZone
+            initial={{ x: 0 }}
+            whileDragOver={{ x: 10 }}
+            transition={{ duration: 0 }}
+            onDropZoneEnter={onDropZoneEnter}
+            onDropZoneLeave={onDropZoneLeave}
+            onDropZoneDrop={onDropZoneDrop}
+          />
+        </>
+      ));
+
+      const element = screen.getByTestId("target");
+      const zone = screen.getByTestId("zone");
+      mockRect(zone, 200);
+
+      element.dispatchEvent(pointer("pointerdown", 100));
+      element.dispatchEvent(pointer("pointermove", 250));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onDropZoneEnter).toHaveBeenCalledTimes(1);
+      expect(onDropZoneEnter.mock.calls[0]![1]).toEqual({ id: "card" });
+      expect(zone.style.transform).toBe("translateX(10px)");
+
+      element.dispatchEvent(pointer("pointermove", 100));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onDropZoneLeave).toHaveBeenCalledTimes(1);
+      expect(zone.style.transform).toBe("none");
+
+      element.dispatchEvent(pointer("pointermove", 250));
+      element.dispatchEvent(pointer("pointerup", 250));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onDropZoneDrop).toHaveBeenCalledTimes(1);
+      expect(onDropZoneDrop.mock.calls[0]![0].point).toEqual({
+        x: 250,
+        y: 100,
+      });
+      expect(onDropZoneDrop.mock.calls[0]![1]).toEqual({ id: "card" });
+      expect(onDropZoneLeave).toHaveBeenCalledTimes(1);
+      expect(zone.style.transform).toBe("none");
+    });
+
+    it("remeasures zones when they scroll under the pointer", async () => {
+      const onDropZoneEnter = vi.fn();
+
+      render(() => (
+        <>
+          <motion.div data-testid="target" drag />
+          <motion.div
+            data-testid="zone"
+            dropZone
+            onDropZoneEnter={onDropZoneEnter}
+          />
+        </>
+      ));
+
+      const element = screen.getByTestId("target");
+      const zone = screen.getByTestId("zone");
+      mockRect(zone, 300);
+
+      element.dispatchEvent(pointer("pointerdown", 100));
+      element.dispatchEvent(pointer("pointermove", 250));
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onDropZoneEnter).not.toHaveBeenCalled();
+
+      mockRect(zone, 200);
+      window.dispatchEvent(new Event("scroll"));
+      await vi.advanceTimersByTimeAsync(50);
+      expect(onDropZoneEnter).toHaveBeenCalledTimes(1);
+
+      element.dispatchEvent(pointer("pointerup", 250));
+      await vi.advanceTimersByTimeAsync(50);
+    });
+
+    it("still passes native drag and drop listeners to the element", () => {
+      const onDrop = vi.fn();
+
+      render(() => <motion.div data-testid="target" onDrop={onDrop} />);
+
+      fireEvent.drop(screen.getByTestId("target"));
+      expect(onDrop).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("swipe gestures", () => {
+    const pan = async (
+      element: HTMLElement,
+      to: { clientX: number; clientY: number },
+      holdFor = 0,
+    ) => {
+      element.dispatchEvent(
+        createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+      );
+      await vi.advanceTimersByTimeAsync(16);
+
+      document.dispatchEvent(createPointerEvent("pointermove", to));
+      await vi.advanceTimersByTimeAsync(holdFor);
+
+      element.dispatchEvent(createPointerEvent("pointerup", to));
+      await vi.advanceTimersByTimeAsync(50);
+    };
+
+    it("calls onSwipe with the direction of a fast pan", async () => {
+      const onSwipe = vi.fn();
+
+      render(() => <motion.div data-testid="target" onSwipe={onSwipe} />);
+
+      await pan(screen.getByTestId("target"), { clientX: -100, clientY: 10 });
+
+      expect(onSwipe).toHaveBeenCalledTimes(1);
+      expect(onSwipe.mock.calls[0]![1]).toMatchObject({
+        direction: "left",
+        offset: { x: -100, y: 10 },
+      });
+    });
+
+    it("ignores pans shorter than swipeThreshold or that stop first", async () => {
+      const onSwipe = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          swipeThreshold={150}
+          onSwipe={onSwipe}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      await pan(element, { clientX: 100, clientY: 0 });
+      await pan(element, { clientX: 200, clientY: 0 }, 200);
+
+      expect(onSwipe).not.toHaveBeenCalled();
+    });
+
+    it("only swipes along the swipe axis", async () => {
+      const onSwipe = vi.fn();
+
+      render(() => (
+        <motion.div data-testid="target" swipe="y" onSwipe={onSwipe} />
+      ));
+
+      const element = screen.getByTestId("target");
+      await pan(element, { clientX: 200, clientY: 20 });
+      expect(onSwipe).not.toHaveBeenCalled();
+
+      await pan(element, { clientX: 200, clientY: 100 });
+      expect(onSwipe.mock.calls[0]![1].direction).toBe("down");
+    });
+
+    it("cancels the tap instead of calling onTap", async () => {
+      const onTap = vi.fn();
+      const onTapCancel = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          onTap={onTap}
+          onTapCancel={onTapCancel}
+          onSwipe={() => {}}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      await pan(element, { clientX: 100, clientY: 0 });
+
+      expect(onTap).not.toHaveBeenCalled();
+      expect(onTapCancel).toHaveBeenCalledTimes(1);
+
+      await pan(element, { clientX: 0, clientY: 0 });
+      expect(onTap).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("pinch gestures", () => {
+    const touch = (
+      type: string,
+      pointerId: number,
+      clientX: number,
+      clientY: number,
+    ) =>
+      createPointerEvent(type, {
+        pointerType: "touch",
+        pointerId,
+        isPrimary: pointerId === 1,
+        clientX,
+        clientY,
+      });
+
+    const startPinch = async (element: HTMLElement) => {
+      element.dispatchEvent(touch("pointerdown", 1, 0, 0));
+      element.dispatchEvent(touch("pointerdown", 2, 100, 0));
+      await vi.advanceTimersByTimeAsync(50);
+    };
+
+    it("disables browser pinch-zoom for pinch callbacks alone", () => {
+      render(() => (
+        <>
+          <motion.div data-testid="callbacks" onPinch={() => {}} />
+          <motion.div data-testid="while" whilePinch={{ scale: 1.1 }} />
+          <motion.div data-testid="none" />
+        </>
+      ));
+
+      expect(screen.getByTestId("callbacks").style.touchAction).toBe("none");
+      expect(screen.getByTestId("while").style.touchAction).toBe("none");
+      expect(screen.getByTestId("none").style.touchAction).toBe("");
+    });
+
+    it("calls pinch handlers with scale, rotation and origin", async () => {
+      const onPinchStart = vi.fn();
+      const onPinch = vi.fn();
+      const onPinchEnd = vi.fn();
+
+      render(() => (
+        <motion.div
+          data-testid="target"
+          onPinchStart={onPinchStart}
+          onPinch={onPinch}
+          onPinchEnd={onPinchEnd}
+        />
+      ));
+
+      await startPinch(screen.getByTestId("target"));
+      expect(onPinchStart).toHaveBeenCalledTimes(1);
+
+      document.dispatchEvent(touch("pointermove", 2, 0, 200));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onPinch).toHaveBeenLastCalledWith(
+        expect.any(PointerEvent),
+        expect.objectContaining({
+          scale: 2,
+          rotation: 90,
+          origin: { x: 0, y: 100 },
+        }),
+      );
+
+      document.dispatchEvent(touch("pointerup", 2, 0, 200));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onPinchEnd).toHaveBeenCalledTimes(1);
+      expect(onPinchEnd.mock.calls[0]![1]).toMatchObject({
+        scale: 2,
+        rotation: 90,
+      });
+    });
+
+    it("does not pinch with a single pointer", async () => {
+      const onPinchStart = vi.fn();
+
+      render(() => (
+        <motion.div data-testid="target" onPinchStart={onPinchStart} />
+      ));
+
+      const element = screen.getByTestId("target");
+      element.dispatchEvent(touch("pointerdown", 1, 0, 0));
+      document.dispatchEvent(touch("pointermove", 1, 50, 50));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onPinchStart).not.toHaveBeenCalled();
+    });
+
+    it("writes scale and rotate within pinchConstraints", async () => {
+      render(() => (
+        <motion.div
+          data-testid="target"
+          pinch
+          pinchConstraints={{ maxScale: 1.5, maxRotate: 45 }}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      expect(element.getAttribute("style")).toContain("touch-action: none");
+
+      await startPinch(element);
+      document.dispatchEvent(touch("pointermove", 2, 0, 200));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(element.style.transform).toBe("scale(1.5) rotate(45deg)");
+    });
+
+    it("only writes scale when pinch is scale", async () => {
+      render(() => <motion.div data-testid="target" pinch="scale" />);
+
+      const element = screen.getByTestId("target");
+      await startPinch(element);
+      document.dispatchEvent(touch("pointermove", 2, 0, 200));
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(element.style.transform).toBe("scale(2)");
+    });
+
+    it("animates whilePinch and reverts when the pinch ends", async () => {
+      render(() => (
+        <motion.div
+          data-testid="target"
+          initial={{ x: 0 }}
+          animate={{ x: 10 }}
+          whilePinch={{ x: 100 }}
+          transition={{ duration: 0.1 }}
+        />
+      ));
+
+      const element = screen.getByTestId("target");
+      await vi.advanceTimersByTimeAsync(200);
+      expect(element.style.transform).toBe("translateX(10px)");
+
+      await startPinch(element);
+      await vi.advanceTimersByTimeAsync(200);
+      expect(element.style.transform).toBe("translateX(100px)");
+
+      document.dispatchEvent(touch("pointerup", 1, 0, 0));
+      await vi.advanceTimersByTimeAsync(200);
+      expect(element.style.transform).toBe("translateX(10px)");
     });
   });
 
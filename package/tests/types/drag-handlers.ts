@@ -0,0 +1,16 @@
+import type { MotionOptions } from "../../src";
+
+// Handlers typed for pointer events still type-check now that drag
+// callbacks can receive keyboard events too.
+const pointerHandlers: MotionOptions<"div"> = {
+  onDragStart: (event: PointerEvent) => event.pointerId,
+  onDrag: (_event, info) => info.point.x,
+  onDragEnd: (event: MouseEvent, info) => event.clientX + info.offset.x,
+};
+
+const keyboardHandler: MotionOptions<"div"> = {
+  onDragEnd: (event) => event instanceof KeyboardEvent && event.key,
+};
+
+void pointerHandlers;
+void keyboardHandler;
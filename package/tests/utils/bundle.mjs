@@ -0,0 +1,61 @@
+// Build the package the way it's published, as a single file, then bundle
+// an app whose source is the first argument, importing from "motion-solid".
+// Prints the app bundle. Run with node, outside jsdom, which esbuild rejects.
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { solidPlugin } from "esbuild-plugin-solid";
+import { build as buildPackage } from "tsup";
+import { build as buildApp } from "vite";
+
+const external = [
+  "solid-js",
+  "solid-js/web",
+  "solid-js/store",
+  "motion-dom",
+  "motion-utils",
+  "@solid-primitives/refs",
+  "@solid-primitives/transition-group",
+];
+
+const source = process.argv[2] ?? "";
+const outDir = await mkdtemp(join(tmpdir(), "motion-solid-"));
+
+try {
+  await buildPackage({
+    config: false,
+    entry: { index: "src/index.ts" },
+    format: ["esm"],
+    outDir,
+    external,
+    esbuildPlugins: [solidPlugin({ solid: { generate: "dom" } })],
+    silent: true,
+  });
+
+  const entry = "\0entry";
+  const output = await buildApp({
+    configFile: false,
+    logLevel: "silent",
+    plugins: [
+      {
+        name: "entry",
+        enforce: "pre",
+        resolveId: (id) => (id === "entry" ? entry : null),
+        load: (id) =>
+          id === entry
+            ? source.replace("motion-solid", join(outDir, "index.js"))
+            : null,
+      },
+    ],
+    build: {
+      write: false,
+      minify: false,
+      modulePreload: false,
+      rollupOptions: { input: "entry", external },
+    },
+  });
+
+  process.stdout.write(output.output[0].code);
+} finally {
+  await rm(outDir, { recursive: true, force: true });
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@solidjs/testing-library";
+import { createRoot, createSignal } from "solid-js";
+import { createMotionValue, motion, type MotionValue } from "../../src";
+
+describe("createMotionValue", () => {
+  it("creates a value outside of an owner", () => {
+    const value = createMotionValue(10);
+
+    expect(value.get()).toBe(10);
+    value.set(20);
+    expect(value.get()).toBe(20);
+  });
+
+  it("removes subscribers when the owner is disposed", () => {
+    const onChange = vi.fn();
+
+    const { value, dispose } = createRoot((dispose) => ({
+      value: createMotionValue(0),
+      dispose,
+    }));
+
+    value.on("change", onChange);
+    value.set(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    dispose();
+    value.set(2);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops running animations when the owner is disposed", () => {
+    const { value, dispose } = createRoot((dispose) => ({
+      value: createMotionValue(0),
+      dispose,
+    }));
+    const stop = vi.fn();
+
+    void value.start(() => ({ stop }) as never);
+    expect(value.isAnimating()).toBe(true);
+
+    dispose();
+    expect(stop).toHaveBeenCalled();
+  });
+
+  it("drives style on a motion component", async () => {
+    let x!: MotionValue<number>;
+    let opacity!: MotionValue<number>;
+
+    render(() => {
+      x = createMotionValue(10);
+      opacity = createMotionValue(0.5);
+      return <motion.div data-testid="target" style={{ x, opacity }} />;
+    });
+
+    const element = screen.getByTestId("target");
+    expect(element.style.transform).toBe("translateX(10px)");
+    expect(element.style.opacity).toBe("0.5");
+
+    x.set(50);
+    opacity.set(0.25);
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(element.style.transform).toBe("translateX(50px)");
+    expect(element.style.opacity).toBe("0.25");
+  });
+
+  it("accepts kebab-case transform keys", async () => {
+    let scaleX!: MotionValue<number>;
+
+    render(() => {
+      scaleX = createMotionValue(2);
+      return <motion.div data-testid="target" style={{ "scale-x": scaleX }} />;
+    });
+
+    const element = screen.getByTestId("target");
+    expect(element.style.transform).toBe("scaleX(2)");
+
+    scaleX.set(3);
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(element.style.transform).toBe("scaleX(3)");
+  });
+
+  it("does not re-run the component when the value changes", async () => {
+    const value = createMotionValue(0);
+    const [label] = createSignal("static");
+    const readLabel = vi.fn(() => label());
+
+    render(() => (
+      <motion.div data-testid="target" style={{ opacity: value }}>
+        {readLabel()}
+      </motion.div>
+    ));
+
+    const callsAfterMount = readLabel.mock.calls.length;
+
+    for (let i = 1; i <= 5; i++) {
+      value.set(i / 10);
+      await vi.advanceTimersByTimeAsync(16);
+    }
+
+    expect(screen.getByTestId("target").style.opacity).toBe("0.5");
+    expect(readLabel.mock.calls.length).toBe(callsAfterMount);
+  });
+});
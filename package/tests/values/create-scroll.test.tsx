@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from "vitest";
+import { render } from "@solidjs/testing-library";
+import { createRoot, createSignal } from "solid-js";
+import { createScroll } from "../../src";
+
+const stubLayout = (element: Element, layout: Record<string, unknown>) => {
+  for (const [key, value] of Object.entries(layout)) {
+    Object.defineProperty(element, key, {
+      configurable: true,
+      writable: true,
+      value,
+    });
+  }
+};
+
+const scrollTo = async (element: Element, scrollTop: number) => {
+  stubLayout(element, { scrollTop });
+  element.dispatchEvent(new Event("scroll"));
+  await vi.advanceTimersByTimeAsync(20);
+};
+
+const createContainer = () => {
+  const container = document.createElement("div");
+  stubLayout(container, {
+    scrollTop: 0,
+    scrollLeft: 0,
+    clientHeight: 100,
+    clientWidth: 100,
+    scrollHeight: 500,
+    scrollWidth: 100,
+  });
+  document.body.appendChild(container);
+  return container;
+};
+
+describe("createScroll", () => {
+  it("tracks the scroll position and progress of a container", async () => {
+    const container = createContainer();
+
+    const { scrollY, scrollYProgress, scrollXProgress } = createRoot(() =>
+      createScroll({ container }),
+    );
+
+    expect(scrollYProgress.get()).toBe(0);
+
+    await scrollTo(container, 200);
+    expect(scrollY.get()).toBe(200);
+    expect(scrollYProgress.get()).toBe(0.5);
+    expect(scrollXProgress.get()).toBe(0);
+
+    container.remove();
+  });
+
+  it("only measures the given axis", async () => {
+    const container = createContainer();
+    stubLayout(container, { scrollWidth: 300, scrollLeft: 100 });
+
+    const { scrollX, scrollXProgress, scrollY, scrollYProgress } = createRoot(
+      () => createScroll({ container, axis: "y" }),
+    );
+
+    await scrollTo(container, 200);
+    expect(scrollY.get()).toBe(200);
+    expect(scrollYProgress.get()).toBe(0.5);
+    expect(scrollX.get()).toBe(0);
+    expect(scrollXProgress.get()).toBe(0);
+
+    container.remove();
+  });
+
+  it("maps target intersections to progress", async () => {
+    const container = createContainer();
+    const target = document.createElement("div");
+    container.appendChild(target);
+    stubLayout(target, {
+      offsetTop: 300,
+      offsetHeight: 50,
+      offsetParent: container,
+    });
+
+    const { scrollYProgress } = createRoot(() =>
+      createScroll({
+        container,
+        target,
+        offset: ["start end", "end start"],
+      }),
+    );
+
+    // "start end" is reached at 300 - 100, "end start" at 300 + 50.
+    await scrollTo(container, 100);
+    expect(scrollYProgress.get()).toBe(0);
+
+    await scrollTo(container, 275);
+    expect(scrollYProgress.get()).toBe(0.5);
+
+    await scrollTo(container, 400);
+    expect(scrollYProgress.get()).toBe(1);
+
+    container.remove();
+  });
+
+  it("resolves pixel and percentage edges", async () => {
+    const container = createContainer();
+    const target = document.createElement("div");
+    container.appendChild(target);
+    stubLayout(target, {
+      offsetTop: 300,
+      offsetHeight: 50,
+      offsetParent: container,
+    });
+
+    const { scrollYProgress } = createRoot(() =>
+      createScroll({
+        container,
+        target,
+        offset: [
+          ["start", "100px"],
+          ["100%", "50%"],
+        ],
+      }),
+    );
+
+    // From 300 - 100 to 350 - 50.
+    await scrollTo(container, 250);
+    expect(scrollYProgress.get()).toBe(0.5);
+
+    container.remove();
+  });
+
+  it("follows container accessors and removes listeners with the owner", async () => {
+    const first = createContainer();
+    const second = createContainer();
+    const [container, setContainer] = createSignal<Element>(first);
+
+    let scrollY!: ReturnType<typeof createScroll>["scrollY"];
+    const { unmount } = render(() => {
+      ({ scrollY } = createScroll({ container }));
+      return null;
+    });
+
+    await scrollTo(first, 100);
+    expect(scrollY.get()).toBe(100);
+
+    setContainer(second);
+    await scrollTo(first, 300);
+    expect(scrollY.get()).toBe(0);
+
+    await scrollTo(second, 50);
+    expect(scrollY.get()).toBe(50);
+
+    unmount();
+    await scrollTo(second, 200);
+    expect(scrollY.get()).toBe(50);
+
+    first.remove();
+    second.remove();
+  });
+});
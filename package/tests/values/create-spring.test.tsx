@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import { render } from "@solidjs/testing-library";
+import { createRoot, createSignal } from "solid-js";
+import {
+  MotionConfig,
+  createMotionValue,
+  createSpring,
+  type MotionValue,
+} from "../../src";
+
+describe("createSpring", () => {
+  it("springs toward a new target set on the value", async () => {
+    const value = createSpring(0, { stiffness: 300, damping: 30 });
+
+    value.set(100);
+    await vi.advanceTimersByTimeAsync(50);
+
+    const midway = value.get();
+    expect(midway).toBeGreaterThan(0);
+    expect(midway).toBeLessThan(100);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(value.get()).toBe(100);
+  });
+
+  it("follows a source MotionValue", async () => {
+    const source = createMotionValue(0);
+    const value = createSpring(source);
+
+    source.set(50);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(value.get()).toBe(50);
+  });
+
+  it("follows a Solid accessor", async () => {
+    const [target, setTarget] = createSignal(0);
+    let value!: MotionValue<number>;
+
+    const dispose = createRoot((dispose) => {
+      value = createSpring(target);
+      return dispose;
+    });
+
+    setTarget(80);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(value.get()).toBe(80);
+
+    dispose();
+  });
+
+  it("keeps its velocity when the target changes mid-flight", async () => {
+    const value = createSpring(0, { stiffness: 200, damping: 20 });
+
+    value.set(100);
+    await vi.advanceTimersByTimeAsync(100);
+
+    const position = value.get();
+    expect(value.getVelocity()).toBeGreaterThan(0);
+
+    const fromRest = createSpring(position, { stiffness: 200, damping: 20 });
+
+    value.set(200);
+    fromRest.set(200);
+    await vi.advanceTimersByTimeAsync(32);
+
+    expect(value.get() - position).toBeGreaterThan(fromRest.get() - position);
+  });
+
+  it("jumps instantly and stops the active spring", async () => {
+    const value = createSpring(0);
+
+    value.set(100);
+    await vi.advanceTimersByTimeAsync(50);
+
+    value.jump(40);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(value.get()).toBe(40);
+    expect(value.getVelocity()).toBe(0);
+  });
+
+  it("snaps to the target when reduced motion is active", async () => {
+    let value!: MotionValue<number>;
+
+    render(() => (
+      <MotionConfig reducedMotion="always">
+        {(() => {
+          value = createSpring(0);
+          return null;
+        })()}
+      </MotionConfig>
+    ));
+
+    value.set(100);
+    expect(value.get()).toBe(100);
+  });
+
+  it("stops following the source when the owner is disposed", async () => {
+    const source = createMotionValue(0);
+    const { value, dispose } = createRoot((dispose) => ({
+      value: createSpring(source),
+      dispose,
+    }));
+
+    dispose();
+    source.set(100);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(value.get()).toBe(0);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@solidjs/testing-library";
+import { createRoot } from "solid-js";
+import {
+  createMotionValue,
+  createTransform,
+  motion,
+  type MotionValue,
+} from "../../src";
+
+const flushFrame = () => vi.advanceTimersByTimeAsync(20);
+
+describe("createTransform", () => {
+  it("maps a value from one range into another", async () => {
+    const x = createMotionValue(0);
+    const opacity = createTransform(x, [0, 100], [0, 1]);
+
+    expect(opacity.get()).toBe(0);
+
+    x.set(50);
+    await flushFrame();
+    expect(opacity.get()).toBe(0.5);
+  });
+
+  it("clamps by default and can be unclamped", async () => {
+    const x = createMotionValue(200);
+    const clamped = createTransform(x, [0, 100], [0, 1]);
+    const unclamped = createTransform(x, [0, 100], [0, 1], { clamp: false });
+
+    expect(clamped.get()).toBe(1);
+    expect(unclamped.get()).toBe(2);
+  });
+
+  it("applies easing between ranges", () => {
+    const x = createMotionValue(50);
+    const eased = createTransform(x, [0, 100], [0, 1], {
+      ease: (t) => t * t,
+    });
+
+    expect(eased.get()).toBe(0.25);
+  });
+
+  it("interpolates colors, unit strings and complex values", () => {
+    const x = createMotionValue(50);
+    const color = createTransform(x, [0, 100], ["#ff0000", "#0000ff"]);
+    const width = createTransform(x, [0, 100], ["0px", "100px"]);
+    const shadow = createTransform(
+      x,
+      [0, 100],
+      ["0px 0px 0px rgba(0, 0, 0, 0)", "10px 20px 30px rgba(0, 0, 0, 1)"],
+    );
+
+    expect(color.get()).toMatch(/^rgba\(/);
+    expect(width.get()).toBe("50px");
+    expect(shadow.get()).toBe("5px 10px 15px rgba(0, 0, 0, 0.5)");
+  });
+
+  it("tracks every value read inside a function", async () => {
+    const a = createMotionValue(2);
+    const b = createMotionValue(3);
+    const product = createTransform(() => a.get() * b.get());
+
+    expect(product.get()).toBe(6);
+
+    a.set(4);
+    await flushFrame();
+    expect(product.get()).toBe(12);
+
+    b.set(5);
+    await flushFrame();
+    expect(product.get()).toBe(20);
+  });
+
+  it("tracks conditionally read values", async () => {
+    const useA = createMotionValue(true);
+    const a = createMotionValue(1);
+    const b = createMotionValue(10);
+    const output = createTransform(() => (useA.get() ? a.get() : b.get()));
+
+    useA.set(false);
+    await flushFrame();
+    expect(output.get()).toBe(10);
+
+    b.set(20);
+    await flushFrame();
+    expect(output.get()).toBe(20);
+  });
+
+  it("passes latest values to single and multi transformers", async () => {
+    const a = createMotionValue(1);
+    const b = createMotionValue(2);
+    const doubled = createTransform(a, (latest) => latest * 2);
+    const sum = createTransform([a, b], ([first, second]) => first! + second!);
+
+    a.set(5);
+    await flushFrame();
+
+    expect(doubled.get()).toBe(10);
+    expect(sum.get()).toBe(7);
+  });
+
+  it("batches multiple input changes into one update per frame", async () => {
+    const a = createMotionValue(0);
+    const b = createMotionValue(0);
+    const compute = vi.fn(() => a.get() + b.get());
+    createTransform(compute);
+
+    compute.mockClear();
+    a.set(1);
+    b.set(1);
+    a.set(2);
+    await flushFrame();
+
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops following inputs when the owner is disposed", async () => {
+    const x = createMotionValue(0);
+    const { output, dispose } = createRoot((dispose) => ({
+      output: createTransform(x, [0, 100], [0, 1]),
+      dispose,
+    }));
+
+    dispose();
+    x.set(100);
+    await flushFrame();
+
+    expect(output.get()).toBe(0);
+  });
+
+  it("drives style on a motion component", async () => {
+    let x!: MotionValue<number>;
+
+    render(() => {
+      x = createMotionValue(0);
+      const opacity = createTransform(x, [0, 100], [1, 0]);
+      return <motion.div data-testid="target" style={{ x, opacity }} />;
+    });
+
+    x.set(75);
+    await flushFrame();
+
+    const element = screen.getByTestId("target");
+    expect(element.style.transform).toBe("translateX(75px)");
+    expect(element.style.opacity).toBe("0.25");
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@solidjs/testing-library";
+import { createEffect, createRoot, createSignal } from "solid-js";
+import { createStore } from "solid-js/store";
+import {
+  accessorFromMotionValue,
+  createMotionValue,
+  motion,
+  motionValueFromAccessor,
+  type MotionValue,
+} from "../../src";
+
+describe("motionValueFromAccessor", () => {
+  it("starts with the accessor's current value", () => {
+    const [count] = createSignal(5);
+
+    const { value, dispose } = createRoot((dispose) => ({
+      value: motionValueFromAccessor(count),
+      dispose,
+    }));
+
+    expect(value.get()).toBe(5);
+    dispose();
+  });
+
+  it("follows signal and store updates", async () => {
+    const [count, setCount] = createSignal(0);
+    const [store, setStore] = createStore({ opacity: 1 });
+
+    const { fromSignal, fromStore, dispose } = createRoot((dispose) => ({
+      fromSignal: motionValueFromAccessor(count),
+      fromStore: motionValueFromAccessor(() => store.opacity),
+      dispose,
+    }));
+
+    setCount(10);
+    setStore("opacity", 0.5);
+
+    expect(fromSignal.get()).toBe(10);
+    expect(fromStore.get()).toBe(0.5);
+    dispose();
+  });
+
+  it("stops following the accessor when the owner is disposed", () => {
+    const [count, setCount] = createSignal(0);
+
+    const { value, dispose } = createRoot((dispose) => ({
+      value: motionValueFromAccessor(count),
+      dispose,
+    }));
+
+    dispose();
+    setCount(10);
+
+    expect(value.get()).toBe(0);
+  });
+
+  it("drives style on a motion component", async () => {
+    const [x, setX] = createSignal(0);
+
+    render(() => (
+      <motion.div
+        data-testid="target"
+        style={{ x: motionValueFromAccessor(x) }}
+      />
+    ));
+
+    setX(40);
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(screen.getByTestId("target").style.transform).toBe(
+      "translateX(40px)",
+    );
+  });
+});
+
+describe("accessorFromMotionValue", () => {
+  it("starts with the value's current value", () => {
+    const value = createMotionValue(3);
+
+    createRoot((dispose) => {
+      expect(accessorFromMotionValue(value)()).toBe(3);
+      dispose();
+    });
+  });
+
+  it("updates at most once per frame by default", async () => {
+    const value = createMotionValue(0);
+    const runs = vi.fn();
+
+    const dispose = createRoot((dispose) => {
+      const latest = accessorFromMotionValue(value);
+      createEffect(() => runs(latest()));
+      return dispose;
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    runs.mockClear();
+
+    value.set(1);
+    value.set(2);
+    value.set(3);
+    expect(runs).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(20);
+    expect(runs).toHaveBeenCalledTimes(1);
+    expect(runs).toHaveBeenLastCalledWith(3);
+
+    dispose();
+  });
+
+  it("updates synchronously without throttling", () => {
+    const value = createMotionValue(0);
+
+    createRoot((dispose) => {
+      const latest = accessorFromMotionValue(value, { throttle: false });
+
+      value.set(7);
+      expect(latest()).toBe(7);
+      dispose();
+    });
+  });
+
+  it("renders a counter from an animating value", async () => {
+    let count!: MotionValue<number>;
+
+    render(() => {
+      count = createMotionValue(0);
+      const latest = accessorFromMotionValue(count);
+      return <span data-testid="count">{Math.round(latest())}</span>;
+    });
+
+    count.set(42.4);
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(screen.getByTestId("count").textContent).toBe("42");
+  });
+
+  it("stops updating when the owner is disposed", async () => {
+    const value = createMotionValue(0);
+
+    const { latest, dispose } = createRoot((dispose) => ({
+      latest: accessorFromMotionValue(value),
+      dispose,
+    }));
+
+    dispose();
+    value.set(10);
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(latest()).toBe(0);
+  });
+});